@@ -1,16 +1,26 @@
 #!/usr/bin/env node
 
+import { readFileSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
-import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { LSPClient } from './src/lsp-client.js';
+import {
+  type CallToolRequest,
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+} from '@modelcontextprotocol/sdk/types.js';
+import { LSPClient, type ServerStatus } from './src/lsp-client.js';
 import type {
+  CallHierarchyNode,
   Command,
   Diagnostic,
   DocumentSymbol,
+  Location,
   ServerCapabilities,
   SymbolInformation,
+  TextEdit,
+  TypeHierarchyNode,
+  WorkspaceEdit,
   WorkspaceSearchResult,
 } from './src/types.js';
 import { uriToPath } from './src/utils.js';
@@ -47,6 +57,8 @@ function formatServerCapabilities(
       { name: 'Type definition', value: capabilities.typeDefinitionProvider },
       { name: 'Implementation', value: capabilities.implementationProvider },
       { name: 'Find references', value: capabilities.referencesProvider },
+      { name: 'Call hierarchy', value: capabilities.callHierarchyProvider },
+      { name: 'Type hierarchy', value: capabilities.typeHierarchyProvider },
       { name: 'Document highlights', value: capabilities.documentHighlightProvider },
       { name: 'Document symbols', value: capabilities.documentSymbolProvider },
       { name: 'Code actions', value: capabilities.codeActionProvider },
@@ -112,6 +124,167 @@ function formatServerCapabilities(
   return output;
 }
 
+// Helper function to render a call tree as indented lines, one call per line
+function formatCallHierarchy(
+  nodes: CallHierarchyNode[],
+  direction: 'incoming' | 'outgoing',
+  indent = '  '
+): string[] {
+  const arrow = direction === 'incoming' ? '←' : '→';
+  const lines: string[] = [];
+
+  for (const node of nodes) {
+    const { item } = node;
+    const { start } = item.selectionRange;
+    const callSites = node.callRanges
+      .map((range) => `${range.start.line + 1}:${range.start.character + 1}`)
+      .join(', ');
+
+    let line = `${indent}${arrow} ${item.name} (${lspClient.symbolKindToString(item.kind)}) at ${uriToPath(item.uri)}:${start.line + 1}:${start.character + 1}`;
+    if (callSites) {
+      line += ` [call site${node.callRanges.length === 1 ? '' : 's'}: ${callSites}]`;
+    }
+    if (node.cycle) {
+      line += ' (recursive, already shown above)';
+    }
+    lines.push(line);
+    lines.push(...formatCallHierarchy(node.children, direction, `${indent}  `));
+  }
+
+  return lines;
+}
+
+// Helper function to render a supertype or subtype tree as indented lines
+function formatTypeHierarchy(nodes: TypeHierarchyNode[], arrow: string, indent = '  '): string[] {
+  const lines: string[] = [];
+
+  for (const node of nodes) {
+    const { item } = node;
+    const { start } = item.selectionRange;
+    let line = `${indent}${arrow} ${item.name} (${lspClient.symbolKindToString(item.kind)}) at ${uriToPath(item.uri)}:${start.line + 1}:${start.character + 1}`;
+    if (node.cycle) {
+      line += ' (cycle, already shown above)';
+    }
+    lines.push(line);
+    lines.push(...formatTypeHierarchy(node.children, arrow, `${indent}  `));
+  }
+
+  return lines;
+}
+
+// Helper function to show the first lines of a range in a file, prefixed with line numbers
+function formatCodeSnippet(filePath: string, range: Location['range'], maxLines = 3): string[] {
+  let lines: string[];
+  try {
+    lines = readFileSync(filePath, 'utf-8').split('\n');
+  } catch {
+    return [];
+  }
+
+  const lastLine = Math.min(range.end.line, range.start.line + maxLines - 1, lines.length - 1);
+  const snippet: string[] = [];
+  for (let line = range.start.line; line <= lastLine; line++) {
+    snippet.push(`${line + 1} | ${lines[line]}`);
+  }
+  return snippet;
+}
+
+// Helper function to format a duration as e.g. "1h 5m", "3m 20s" or "12s"
+function formatDuration(ms: number): string {
+  const seconds = Math.floor(ms / 1000);
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Helper function to format a byte count in megabytes
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`;
+}
+
+// Helper function to describe one server instance for get_server_status
+function formatServerStatus(status: ServerStatus): string[] {
+  const lines = [`${status.name} (${status.extensions.join(', ')}) in ${status.rootDir}`];
+
+  if (status.status === 'running') {
+    lines.push(`  Status: running (pid ${status.pid}), up ${formatDuration(status.uptimeMs)}`);
+  } else if (status.status === 'restarting') {
+    lines.push('  Status: crashed, restarting');
+  } else {
+    lines.push('  Status: crashed too often, not restarted (use restart_server)');
+  }
+  if (status.status === 'running') {
+    const idleTimeout = status.idleTimeoutMs
+      ? `, stops after ${formatDuration(status.idleTimeoutMs)} idle`
+      : '';
+    lines.push(`  Idle: ${formatDuration(status.idleMs)}${idleTimeout}`);
+    if (status.maxMemoryBytes) {
+      const memory =
+        status.memoryBytes !== undefined ? formatMegabytes(status.memoryBytes) : 'not sampled yet';
+      lines.push(`  Memory: ${memory}, restarts above ${formatMegabytes(status.maxMemoryBytes)}`);
+    }
+    const maxRequests = status.maxRequests ? `, restarts after ${status.maxRequests}` : '';
+    lines.push(`  Requests: ${status.requestCount}${maxRequests}`);
+    if (status.pendingRestart) {
+      lines.push(`  Restart pending: ${status.pendingRestart}`);
+    }
+  }
+  lines.push(`  Open files: ${status.openFiles}`);
+
+  if (status.crashCount > 0 && status.lastCrashTime) {
+    lines.push(
+      `  Crashes: ${status.crashCount} (last ${formatDuration(Date.now() - status.lastCrashTime)} ago: ${status.lastCrashReason})`
+    );
+  } else {
+    lines.push('  Crashes: 0');
+  }
+  return lines;
+}
+
+// Helper function to list the edits in a workspace edit, covering both
+// the `changes` map and the `documentChanges` array forms
+function formatWorkspaceEdit(workspaceEdit: WorkspaceEdit): { lines: string[]; fileCount: number } {
+  const lines: string[] = [];
+  const files = new Set<string>();
+
+  const pushTextEdits = (uri: string, edits: TextEdit[]) => {
+    const filePath = uriToPath(uri);
+    files.add(filePath);
+    lines.push(`File: ${filePath}`);
+    for (const edit of edits) {
+      const { start, end } = edit.range;
+      lines.push(
+        `  - Line ${start.line + 1}, Column ${start.character + 1} to Line ${end.line + 1}, Column ${end.character + 1}: "${edit.newText}"`
+      );
+    }
+  };
+
+  // Like applyWorkspaceEdit, `changes` only count when there are no `documentChanges`
+  if (!workspaceEdit.documentChanges) {
+    for (const [uri, edits] of Object.entries(workspaceEdit.changes || {})) {
+      pushTextEdits(uri, edits);
+    }
+  }
+
+  for (const change of workspaceEdit.documentChanges || []) {
+    if ('textDocument' in change) {
+      pushTextEdits(change.textDocument.uri, change.edits);
+    } else if (change.kind === 'create') {
+      files.add(uriToPath(change.uri));
+      lines.push(`Create file: ${uriToPath(change.uri)}`);
+    } else if (change.kind === 'rename') {
+      files.add(uriToPath(change.newUri));
+      lines.push(`Rename file: ${uriToPath(change.oldUri)} -> ${uriToPath(change.newUri)}`);
+    } else if (change.kind === 'delete') {
+      files.add(uriToPath(change.uri));
+      lines.push(`Delete file: ${uriToPath(change.uri)}`);
+    }
+  }
+
+  return { lines, fileCount: files.size };
+}
+
 // Handle subcommands
 const args = process.argv.slice(2);
 if (args.length > 0) {
@@ -131,7 +304,13 @@ if (args.length > 0) {
   }
 }
 
-const lspClient = new LSPClient();
+let lspClient: LSPClient;
+try {
+  lspClient = new LSPClient();
+} catch (error) {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+}
 
 const server = new Server(
   {
@@ -202,7 +381,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: 'rename_symbol',
         description:
-          'Rename a symbol by name and kind in a file. If multiple symbols match, returns candidate positions and suggests using rename_symbol_strict.',
+          'Rename a symbol by name and kind in a file. Previews the edits by default; set dry_run to false to apply them. If multiple symbols match, returns candidate positions and suggests using rename_symbol_strict.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -222,6 +401,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'The new name for the symbol',
             },
+            dry_run: {
+              type: 'boolean',
+              description: 'Preview the rename edits without writing them to disk',
+              default: true,
+            },
           },
           required: ['file_path', 'symbol_name', 'new_name'],
         },
@@ -229,7 +413,7 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
       {
         name: 'rename_symbol_strict',
         description:
-          'Rename a symbol at a specific position in a file. Use this when rename_symbol returns multiple candidates.',
+          'Rename a symbol at a specific position in a file. Use this when rename_symbol returns multiple candidates. Previews the edits by default; set dry_run to false to apply them.',
         inputSchema: {
           type: 'object',
           properties: {
@@ -249,6 +433,11 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
               type: 'string',
               description: 'The new name for the symbol',
             },
+            dry_run: {
+              type: 'boolean',
+              description: 'Preview the rename edits without writing them to disk',
+              default: true,
+            },
           },
           required: ['file_path', 'line', 'character', 'new_name'],
         },
@@ -694,12 +883,35 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           },
         },
       },
+      {
+        name: 'get_server_status',
+        description:
+          'Show the running language server instances with their status, uptime, open files and crash counts. Crashed servers are restarted automatically with increasing delays.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
+      {
+        name: 'reload_config',
+        description:
+          'Reload the cclsp configuration files without restarting the MCP server. Starts added servers, stops removed ones and restarts servers whose configuration changed. Config files are also reloaded automatically when they change.',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
       {
         name: 'check_capabilities',
         description: 'Check what capabilities are supported by the active LSP servers',
         inputSchema: {
           type: 'object',
           properties: {
+            file_path: {
+              type: 'string',
+              description:
+                'Optional: Check which server handles this file, which configuration rule selected it, and its capabilities',
+            },
             file_extension: {
               type: 'string',
               description:
@@ -765,11 +977,183 @@ server.setRequestHandler(ListToolsRequestSchema, async () => {
           required: ['file_path', 'symbol_name'],
         },
       },
+      {
+        name: 'find_implementations',
+        description:
+          'Find the concrete implementations of an interface, abstract class or method by name and kind. Results are grouped by file with a code snippet for each implementation.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            file_path: {
+              type: 'string',
+              description: 'The path to the file',
+            },
+            symbol_name: {
+              type: 'string',
+              description: 'The name of the interface, abstract class or method',
+            },
+            symbol_kind: {
+              type: 'string',
+              description: 'The kind of symbol (interface, class, method, etc.)',
+            },
+          },
+          required: ['file_path', 'symbol_name'],
+        },
+      },
+      {
+        name: 'find_type_definition',
+        description:
+          'Find the declaration of the type of a variable, parameter or property. Resolves the symbol by name and kind, or by position when line and character are given; nearby positions are tried when the exact one does not resolve.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            file_path: {
+              type: 'string',
+              description: 'The path to the file',
+            },
+            symbol_name: {
+              type: 'string',
+              description: 'The name of the variable, parameter or property',
+            },
+            symbol_kind: {
+              type: 'string',
+              description: 'The kind of symbol (variable, property, field, etc.)',
+            },
+            line: {
+              type: 'number',
+              description:
+                'Optional: The line number (1-indexed) of the symbol, e.g. for parameters that are not listed as document symbols',
+            },
+            character: {
+              type: 'number',
+              description: 'Optional: The character position (1-indexed) of the symbol',
+            },
+          },
+          required: ['file_path', 'symbol_name'],
+        },
+      },
+      {
+        name: 'get_incoming_calls',
+        description:
+          'Find the functions and methods that call a symbol, expanded recursively into a call tree up to the given depth',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            file_path: {
+              type: 'string',
+              description: 'The path to the file containing the symbol',
+            },
+            symbol_name: {
+              type: 'string',
+              description: 'The name of the function or method',
+            },
+            symbol_kind: {
+              type: 'string',
+              description: 'The kind of symbol (function, method, constructor, etc.)',
+            },
+            depth: {
+              type: 'number',
+              description: 'How many levels of callers to expand (default: 1, max: 10)',
+              default: 1,
+            },
+          },
+          required: ['file_path', 'symbol_name'],
+        },
+      },
+      {
+        name: 'get_outgoing_calls',
+        description:
+          'Find the functions and methods that a symbol calls, expanded recursively into a call tree up to the given depth',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            file_path: {
+              type: 'string',
+              description: 'The path to the file containing the symbol',
+            },
+            symbol_name: {
+              type: 'string',
+              description: 'The name of the function or method',
+            },
+            symbol_kind: {
+              type: 'string',
+              description: 'The kind of symbol (function, method, constructor, etc.)',
+            },
+            depth: {
+              type: 'number',
+              description: 'How many levels of callees to expand (default: 1, max: 10)',
+              default: 1,
+            },
+          },
+          required: ['file_path', 'symbol_name'],
+        },
+      },
+      {
+        name: 'get_type_hierarchy',
+        description:
+          'Show the inheritance tree of a class: the types it extends or implements (supertypes) and the types that extend or implement it (subtypes), with file locations',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            file_path: {
+              type: 'string',
+              description: 'The path to the file containing the class',
+            },
+            class_name: {
+              type: 'string',
+              description: 'The name of the class',
+            },
+            direction: {
+              type: 'string',
+              description: 'Which part of the tree to show',
+              enum: ['supertypes', 'subtypes', 'both'],
+              default: 'both',
+            },
+            depth: {
+              type: 'number',
+              description:
+                'How many levels of ancestors and descendants to expand (default: 3, max: 10)',
+              default: 3,
+            },
+          },
+          required: ['file_path', 'class_name'],
+        },
+      },
+      {
+        name: 'undo_last_edit',
+        description:
+          'Undo an edit made through cclsp tools in this session (rename, format, code action, delete), restoring the previous content of every file it changed. Defaults to the most recent edit.',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            edit_id: {
+              type: 'number',
+              description:
+                'Optional: ID of the edit to undo, as shown by list_edit_history. Defaults to the most recent edit.',
+            },
+          },
+        },
+      },
+      {
+        name: 'list_edit_history',
+        description:
+          'List the edits made through cclsp tools in this session, most recent first, with the files each one changed',
+        inputSchema: {
+          type: 'object',
+          properties: {},
+        },
+      },
     ],
   };
 });
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
+// Cancelling a tool call with notifications/cancelled aborts `extra.signal`, which
+// cancels the LSP requests the tool call has in flight
+server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+  lspClient.withCancellation(extra.signal, () => handleToolCall(request))
+);
+
+async function handleToolCall(request: CallToolRequest) {
   const { name, arguments: args } = request.params;
 
   try {
@@ -947,11 +1331,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     if (name === 'rename_symbol') {
-      const { file_path, symbol_name, symbol_kind, new_name } = args as {
+      const {
+        file_path,
+        symbol_name,
+        symbol_kind,
+        new_name,
+        dry_run = true,
+      } = args as {
         file_path: string;
         symbol_name: string;
         symbol_kind?: string;
         new_name: string;
+        dry_run?: boolean;
       };
       const absolutePath = resolve(file_path);
 
@@ -1002,23 +1393,23 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
       try {
         const workspaceEdit = await lspClient.renameSymbol(absolutePath, match.position, new_name);
+        const { lines: changes, fileCount } = formatWorkspaceEdit(workspaceEdit);
 
-        if (workspaceEdit?.changes && Object.keys(workspaceEdit.changes).length > 0) {
-          const changes = [];
-          for (const [uri, edits] of Object.entries(workspaceEdit.changes)) {
-            const filePath = uriToPath(uri);
-            changes.push(`File: ${filePath}`);
-            for (const edit of edits) {
-              const { start, end } = edit.range;
-              changes.push(
-                `  - Line ${start.line + 1}, Column ${start.character + 1} to Line ${end.line + 1}, Column ${end.character + 1}: "${edit.newText}"`
-              );
-            }
+        if (changes.length > 0) {
+          const symbolDesc = `${match.name} (${lspClient.symbolKindToString(match.kind)})`;
+          let resultText: string;
+
+          if (dry_run) {
+            resultText = `Rename preview for ${symbolDesc} to "${new_name}" (${fileCount} file${fileCount === 1 ? '' : 's'}):\n${changes.join('\n')}\n\nNo files were modified. Use dry_run=false to apply these changes.`;
+          } else {
+            const { content: editResult } = await lspClient.applyWorkspaceEdit(
+              workspaceEdit,
+              `Rename ${symbolDesc} to "${new_name}"`
+            );
+            resultText = `Successfully renamed ${symbolDesc} to "${new_name}":\n${changes.join('\n')}\n\n${editResult}`;
           }
 
-          const responseText = warning
-            ? `${warning}\n\nSuccessfully renamed ${match.name} (${lspClient.symbolKindToString(match.kind)}) to "${new_name}":\n${changes.join('\n')}`
-            : `Successfully renamed ${match.name} (${lspClient.symbolKindToString(match.kind)}) to "${new_name}":\n${changes.join('\n')}`;
+          const responseText = warning ? `${warning}\n\n${resultText}` : resultText;
 
           return {
             content: [
@@ -1054,11 +1445,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
     }
 
     if (name === 'rename_symbol_strict') {
-      const { file_path, line, character, new_name } = args as {
+      const {
+        file_path,
+        line,
+        character,
+        new_name,
+        dry_run = true,
+      } = args as {
         file_path: string;
         line: number;
         character: number;
         new_name: string;
+        dry_run?: boolean;
       };
       const absolutePath = resolve(file_path);
 
@@ -1069,24 +1467,30 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           new_name
         );
 
-        if (workspaceEdit?.changes && Object.keys(workspaceEdit.changes).length > 0) {
-          const changes = [];
-          for (const [uri, edits] of Object.entries(workspaceEdit.changes)) {
-            const filePath = uriToPath(uri);
-            changes.push(`File: ${filePath}`);
-            for (const edit of edits) {
-              const { start, end } = edit.range;
-              changes.push(
-                `  - Line ${start.line + 1}, Column ${start.character + 1} to Line ${end.line + 1}, Column ${end.character + 1}: "${edit.newText}"`
-              );
-            }
+        const { lines: changes, fileCount } = formatWorkspaceEdit(workspaceEdit);
+
+        if (changes.length > 0) {
+          if (dry_run) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `Rename preview for symbol at line ${line}, character ${character} to "${new_name}" (${fileCount} file${fileCount === 1 ? '' : 's'}):\n${changes.join('\n')}\n\nNo files were modified. Use dry_run=false to apply these changes.`,
+                },
+              ],
+            };
           }
 
+          const { content: editResult } = await lspClient.applyWorkspaceEdit(
+            workspaceEdit,
+            `Rename symbol at ${file_path}:${line}:${character} to "${new_name}"`
+          );
+
           return {
             content: [
               {
                 type: 'text',
-                text: `Successfully renamed symbol at line ${line}, character ${character} to "${new_name}":\n${changes.join('\n')}`,
+                text: `Successfully renamed symbol at line ${line}, character ${character} to "${new_name}":\n${changes.join('\n')}\n\n${editResult}`,
               },
             ],
           };
@@ -1633,6 +2037,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }
         }
 
+        // Label completions with their server when the file is attached to several servers
+        const completionSources = new Set(
+          completions.map((item) => lspClient.getResultSource(item))
+        );
+        const showCompletionSource = completionSources.size > 1;
+
         // Group completions by kind for better organization
         const completionsByKind = new Map<string, typeof resolvedCompletions>();
 
@@ -1689,6 +2099,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               line += `: ${item.detail}`;
             }
 
+            const source = showCompletionSource ? lspClient.getResultSource(item) : undefined;
+            if (source) {
+              line += ` [${source}]`;
+            }
+
             if (item.documentation) {
               const doc =
                 typeof item.documentation === 'string'
@@ -1810,7 +2225,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const { content: formattedContent, summary } = await lspClient.applyTextEdits(
           absolutePath,
           textEdits,
-          apply_changes
+          apply_changes,
+          `Format ${file_path}`
         );
 
         // Prepare response
@@ -1948,8 +2364,11 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           // Apply the action
           if ('edit' in actionToApply && actionToApply.edit) {
             // Apply workspace edit
-            const { content: editResult } = await lspClient.applyWorkspaceEdit(actionToApply.edit);
             const title = 'title' in actionToApply ? actionToApply.title : 'Unknown action';
+            const { content: editResult } = await lspClient.applyWorkspaceEdit(
+              actionToApply.edit,
+              `Code action "${title}" in ${file_path}`
+            );
             return {
               content: [
                 {
@@ -2003,10 +2422,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           };
         }
 
+        // Label actions with their server when the file is attached to several servers
+        const actionSources = new Set(
+          filteredActions.map((action) => lspClient.getResultSource(action))
+        );
+        const showActionSource = actionSources.size > 1;
+
         // Group actions by kind
         const actionsByKind: Record<
           string,
-          Array<{ title: string; kind?: string; disabled?: boolean }>
+          Array<{ title: string; kind?: string; disabled?: boolean; source?: string }>
         > = {};
 
         for (const action of filteredActions) {
@@ -2028,6 +2453,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               title: action.title,
               kind: 'kind' in action ? action.kind : undefined,
               disabled: 'disabled' in action ? !!action.disabled : false,
+              source: showActionSource ? lspClient.getResultSource(action) : undefined,
             });
           }
         }
@@ -2040,7 +2466,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           for (const action of actions) {
             const statusIcon = action.disabled ? '⚠️' : '•';
             const kindInfo = action.kind ? ` (${action.kind})` : '';
-            responseText += `${statusIcon} "${action.title}"${kindInfo}\n`;
+            const sourceInfo = action.source ? ` [${action.source}]` : '';
+            responseText += `${statusIcon} "${action.title}"${kindInfo}${sourceInfo}\n`;
             if (action.disabled) {
               responseText += '  (disabled)\n';
             }
@@ -2724,10 +3151,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
     if (name === 'check_capabilities') {
       const {
+        file_path,
         file_extension,
         capability_type,
         detailed = false,
       } = args as {
+        file_path?: string;
         file_extension?: string;
         capability_type?: 'text_document' | 'workspace' | 'experimental';
         detailed?: boolean;
@@ -2738,7 +3167,35 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         output.push('LSP Server Capabilities:');
         output.push('');
 
-        if (file_extension) {
+        if (file_path) {
+          const absolutePath = resolve(file_path);
+          const selection = lspClient.getServerSelection(absolutePath);
+          if (!selection) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: `No LSP server configured for file "${file_path}". Check the extensions, filePatterns, rootMarkers and excludePatterns in your cclsp.json configuration.`,
+                },
+              ],
+            };
+          }
+
+          output.push(`${selection.config.command.join(' ')} (file: ${file_path}):`);
+          output.push(`  Selected by ${selection.rule} rule: ${selection.detail}`);
+          output.push('');
+
+          const capabilities = lspClient.getServerCapabilitiesForFile(absolutePath);
+          if (capabilities) {
+            output = output.concat(
+              formatServerCapabilities(capabilities, capability_type, detailed)
+            );
+          } else {
+            output.push(
+              'Server has not been started for this file yet. Its capabilities are reported once it has handled a request.'
+            );
+          }
+        } else if (file_extension) {
           // Get capabilities for specific file extension
           const capabilities = lspClient.getServerCapabilities(file_extension);
           if (!capabilities) {
@@ -2774,13 +3231,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
           for (const [serverKey, capabilities] of allCapabilities) {
             try {
-              const serverConfig = JSON.parse(serverKey);
-              const serverName = serverConfig.command ? serverConfig.command.join(' ') : 'Unknown';
-              const extensions = serverConfig.extensions
+              const { rootDir, config: serverConfig } = JSON.parse(serverKey);
+              const serverName = serverConfig?.command ? serverConfig.command.join(' ') : 'Unknown';
+              const extensions = serverConfig?.extensions
                 ? serverConfig.extensions.join(', ')
                 : 'unknown';
 
-              output.push(`${serverName} (extensions: ${extensions}):`);
+              output.push(`${serverName} (extensions: ${extensions}, root: ${rootDir}):`);
               output = output.concat(
                 formatServerCapabilities(capabilities, capability_type, detailed)
               );
@@ -2958,7 +3415,10 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             symbolInfo,
             delete_references
           );
-          const { content: editResult } = await lspClient.applyWorkspaceEdit(workspaceEdit);
+          const { content: editResult } = await lspClient.applyWorkspaceEdit(
+            workspaceEdit,
+            `Delete ${symbol_name} from ${file_path}`
+          );
 
           responseText += `Deletion completed:\n${editResult}\n`;
 
@@ -3082,6 +3542,452 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
     }
 
+    if (name === 'get_server_status') {
+      const statuses = lspClient.getServerStatus();
+      const text =
+        statuses.length === 0
+          ? 'No language servers are running. Servers are started when a file they handle is first used.'
+          : statuses.map((status) => formatServerStatus(status).join('\n')).join('\n\n');
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text,
+          },
+        ],
+      };
+    }
+
+    if (name === 'reload_config') {
+      try {
+        const result = await lspClient.reloadConfig();
+        const sections = [
+          `Reloaded configuration from:\n${result.sources.map((s) => `• ${s}`).join('\n')}`,
+        ];
+
+        if (result.added.length > 0) {
+          sections.push(`Added servers:\n${result.added.map((s) => `• ${s}`).join('\n')}`);
+        }
+        if (result.removed.length > 0) {
+          sections.push(`Removed servers:\n${result.removed.map((s) => `• ${s}`).join('\n')}`);
+        }
+        if (result.changed.length > 0) {
+          sections.push(
+            `Changed servers (running instances restarted):\n${result.changed.map((s) => `• ${s}`).join('\n')}`
+          );
+        }
+        if (result.failed.length > 0) {
+          sections.push(`Failed to start:\n${result.failed.map((s) => `• ${s}`).join('\n')}`);
+        }
+        if (result.added.length + result.removed.length + result.changed.length === 0) {
+          sections.push('No server changes.');
+        }
+        sections.push(`${result.unchanged} server(s) unchanged.`);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: sections.join('\n\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error reloading configuration, keeping the previous one: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+
+    if (name === 'find_implementations') {
+      const { file_path, symbol_name, symbol_kind } = args as {
+        file_path: string;
+        symbol_name: string;
+        symbol_kind?: string;
+      };
+      const absolutePath = resolve(file_path);
+
+      const { matches: symbolMatches, warning } = await lspClient.findSymbolsByName(
+        absolutePath,
+        symbol_name,
+        symbol_kind
+      );
+
+      if (symbolMatches.length === 0) {
+        const notFound = `No symbols found with name "${symbol_name}"${symbol_kind ? ` and kind "${symbol_kind}"` : ''} in ${file_path}. Please verify the symbol name and ensure the language server is properly configured.`;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: warning ? `${warning}\n\n${notFound}` : notFound,
+            },
+          ],
+        };
+      }
+
+      const results: string[] = [];
+      for (const match of symbolMatches) {
+        try {
+          const locations = await lspClient.findImplementations(absolutePath, match.position);
+          if (locations.length === 0) {
+            continue;
+          }
+
+          // Group implementations by file, keeping the order the server returned them in
+          const byFile = new Map<string, Location[]>();
+          for (const location of locations) {
+            const filePath = uriToPath(location.uri);
+            byFile.set(filePath, [...(byFile.get(filePath) || []), location]);
+          }
+
+          const fileSections = [...byFile.entries()].map(([filePath, fileLocations]) => {
+            const entries = fileLocations.map((location) => {
+              const { start } = location.range;
+              const snippet = formatCodeSnippet(filePath, location.range);
+              return `  • ${start.line + 1}:${start.character + 1}${snippet.length > 0 ? `\n${snippet.map((line) => `      ${line}`).join('\n')}` : ''}`;
+            });
+            return `${filePath} (${fileLocations.length}):\n${entries.join('\n')}`;
+          });
+
+          results.push(
+            `Implementations of ${match.name} (${lspClient.symbolKindToString(match.kind)}) at ${file_path}:${match.position.line + 1}:${match.position.character + 1} (${locations.length} in ${byFile.size} file${byFile.size === 1 ? '' : 's'}):\n\n${fileSections.join('\n\n')}`
+          );
+        } catch (error) {
+          // Continue trying other symbols if one fails
+        }
+      }
+
+      if (results.length === 0) {
+        const noResults = `Found ${symbolMatches.length} symbol(s) but no implementations could be retrieved. The symbol may have no implementations, or the language server may not support finding them (check_capabilities shows "Implementation").`;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: warning ? `${warning}\n\n${noResults}` : noResults,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: warning ? `${warning}\n\n${results.join('\n\n')}` : results.join('\n\n'),
+          },
+        ],
+      };
+    }
+
+    if (name === 'find_type_definition') {
+      const { file_path, symbol_name, symbol_kind, line, character } = args as {
+        file_path: string;
+        symbol_name: string;
+        symbol_kind?: string;
+        line?: number;
+        character?: number;
+      };
+      const absolutePath = resolve(file_path);
+
+      const formatLocations = (locations: Location[]) =>
+        locations
+          .map((loc) => {
+            const { start } = loc.range;
+            return `${uriToPath(loc.uri)}:${start.line + 1}:${start.character + 1}`;
+          })
+          .join('\n');
+
+      if (line !== undefined && character !== undefined) {
+        const position = { line: line - 1, character: character - 1 };
+        const locations = await lspClient.findTypeDefinition(absolutePath, position);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text:
+                locations.length > 0
+                  ? `Type definition of ${symbol_name} at ${file_path}:${line}:${character}:\n${formatLocations(locations)}`
+                  : `No type definition found for ${symbol_name} at position ${line}:${character} in ${file_path}. The symbol may have a primitive or inferred type without a declaration.`,
+            },
+          ],
+        };
+      }
+
+      const { matches: symbolMatches, warning } = await lspClient.findSymbolsByName(
+        absolutePath,
+        symbol_name,
+        symbol_kind
+      );
+
+      if (symbolMatches.length === 0) {
+        const notFound = `No symbols found with name "${symbol_name}"${symbol_kind ? ` and kind "${symbol_kind}"` : ''} in ${file_path}. Parameters and local variables are often not listed as document symbols; pass line and character to look them up by position.`;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: warning ? `${warning}\n\n${notFound}` : notFound,
+            },
+          ],
+        };
+      }
+
+      const results: string[] = [];
+      for (const match of symbolMatches) {
+        try {
+          // Positions of document symbols are exact, nearby positions belong to other symbols
+          const locations = await lspClient.getTypeDefinition(absolutePath, match.position);
+          if (locations.length > 0) {
+            results.push(
+              `Type definition of ${match.name} (${lspClient.symbolKindToString(match.kind)}) at ${file_path}:${match.position.line + 1}:${match.position.character + 1}:\n${formatLocations(locations)}`
+            );
+          }
+        } catch (error) {
+          // Continue trying other symbols if one fails
+        }
+      }
+
+      if (results.length === 0) {
+        const noResults = `Found ${symbolMatches.length} symbol(s) but no type definitions could be retrieved. The symbols may have primitive or inferred types without a declaration.`;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: warning ? `${warning}\n\n${noResults}` : noResults,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: warning ? `${warning}\n\n${results.join('\n\n')}` : results.join('\n\n'),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_incoming_calls' || name === 'get_outgoing_calls') {
+      const {
+        file_path,
+        symbol_name,
+        symbol_kind,
+        depth = 1,
+      } = args as {
+        file_path: string;
+        symbol_name: string;
+        symbol_kind?: string;
+        depth?: number;
+      };
+      const absolutePath = resolve(file_path);
+      const direction = name === 'get_incoming_calls' ? 'incoming' : 'outgoing';
+
+      const { matches: symbolMatches, warning } = await lspClient.findSymbolsByName(
+        absolutePath,
+        symbol_name,
+        symbol_kind
+      );
+
+      if (symbolMatches.length === 0) {
+        const notFound = `No symbols found with name "${symbol_name}"${symbol_kind ? ` and kind "${symbol_kind}"` : ''} in ${file_path}. Please verify the symbol name and ensure the language server is properly configured.`;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: warning ? `${warning}\n\n${notFound}` : notFound,
+            },
+          ],
+        };
+      }
+
+      const results: string[] = [];
+      for (const match of symbolMatches) {
+        try {
+          const roots = await lspClient.getCallHierarchy(
+            absolutePath,
+            match.position,
+            direction,
+            depth
+          );
+
+          for (const root of roots) {
+            const symbolDesc = `${root.item.name} (${lspClient.symbolKindToString(root.item.kind)}) at ${file_path}:${match.position.line + 1}:${match.position.character + 1}`;
+            const header =
+              direction === 'incoming'
+                ? `Incoming calls to ${symbolDesc}:`
+                : `Outgoing calls from ${symbolDesc}:`;
+            const lines = formatCallHierarchy(root.children, direction);
+            results.push(
+              lines.length > 0
+                ? `${header}\n${lines.join('\n')}`
+                : `${header}\n  No ${direction} calls found`
+            );
+          }
+        } catch (error) {
+          // Continue trying other symbols if one fails
+        }
+      }
+
+      if (results.length === 0) {
+        const noResults = `Found ${symbolMatches.length} symbol(s) but no call hierarchy could be retrieved. The language server may not support call hierarchy (check_capabilities shows "Call hierarchy").`;
+        return {
+          content: [
+            {
+              type: 'text',
+              text: warning ? `${warning}\n\n${noResults}` : noResults,
+            },
+          ],
+        };
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: warning ? `${warning}\n\n${results.join('\n\n')}` : results.join('\n\n'),
+          },
+        ],
+      };
+    }
+
+    if (name === 'get_type_hierarchy') {
+      const {
+        file_path,
+        class_name,
+        direction = 'both',
+        depth = 3,
+      } = args as {
+        file_path: string;
+        class_name: string;
+        direction?: 'supertypes' | 'subtypes' | 'both';
+        depth?: number;
+      };
+      const absolutePath = resolve(file_path);
+
+      try {
+        const hierarchies = await lspClient.getTypeHierarchy(
+          absolutePath,
+          class_name,
+          direction,
+          depth
+        );
+
+        if (hierarchies.length === 0) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `No type hierarchy found for class "${class_name}" in ${file_path}. Please verify the class name and ensure the language server supports type hierarchy (check_capabilities shows "Type hierarchy").`,
+              },
+            ],
+          };
+        }
+
+        const results = hierarchies.map((hierarchy) => {
+          const { item } = hierarchy;
+          const { start } = item.selectionRange;
+          const sections = [
+            `Type hierarchy for ${item.name} (${lspClient.symbolKindToString(item.kind)}) at ${uriToPath(item.uri)}:${start.line + 1}:${start.character + 1}:`,
+          ];
+
+          if (direction !== 'subtypes') {
+            const lines = formatTypeHierarchy(hierarchy.supertypes, '↑');
+            sections.push(`Supertypes:\n${lines.length > 0 ? lines.join('\n') : '  None found'}`);
+          }
+          if (direction !== 'supertypes') {
+            const lines = formatTypeHierarchy(hierarchy.subtypes, '↓');
+            sections.push(`Subtypes:\n${lines.length > 0 ? lines.join('\n') : '  None found'}`);
+          }
+
+          return sections.join('\n\n');
+        });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: results.join('\n\n'),
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error getting type hierarchy: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+
+    if (name === 'list_edit_history') {
+      const history = lspClient.getEditHistory();
+
+      if (history.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: 'No edits have been made through cclsp in this session.',
+            },
+          ],
+        };
+      }
+
+      const entries = history.map((entry) => {
+        const files = entry.files.map((file) => {
+          const action = !file.before ? 'created' : !file.after ? 'deleted' : 'modified';
+          return `    ${file.path} (${action})`;
+        });
+        return `#${entry.id} ${entry.description} at ${entry.timestamp.toISOString()}\n${files.join('\n')}`;
+      });
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Edit history (${history.length} edit${history.length === 1 ? '' : 's'}, most recent first):\n\n${entries.join('\n\n')}\n\nUse undo_last_edit with edit_id to undo a specific edit.`,
+          },
+        ],
+      };
+    }
+
+    if (name === 'undo_last_edit') {
+      const { edit_id } = args as { edit_id?: number };
+
+      try {
+        const entry = await lspClient.undoEdit(edit_id);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Undid edit #${entry.id}: ${entry.description}\n\nRestored ${entry.files.length} file${entry.files.length === 1 ? '' : 's'}:\n${entry.files.map((file) => `  ${file.path}`).join('\n')}`,
+            },
+          ],
+        };
+      } catch (error) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `Error undoing edit: ${error instanceof Error ? error.message : String(error)}`,
+            },
+          ],
+        };
+      }
+    }
+
     throw new Error(`Unknown tool: ${name}`);
   } catch (error) {
     return {
@@ -3093,15 +3999,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       ],
     };
   }
-});
+}
+
+// Servers are detached into their own process groups, kill them on any other exit as well
+process.on('exit', () => lspClient.killServers());
 
-process.on('SIGINT', () => {
-  lspClient.dispose();
+process.on('SIGINT', async () => {
+  await lspClient.dispose();
   process.exit(0);
 });
 
-process.on('SIGTERM', () => {
-  lspClient.dispose();
+process.on('SIGTERM', async () => {
+  await lspClient.dispose();
   process.exit(0);
 });
 
@@ -3109,6 +4018,7 @@ async function main() {
   const transport = new StdioServerTransport();
   await server.connect(transport);
   process.stderr.write('CCLSP Server running on stdio\n');
+  lspClient.watchConfig();
 
   // Preload LSP servers for file types found in the project
   try {
@@ -3118,8 +4028,8 @@ async function main() {
   }
 }
 
-main().catch((error) => {
+main().catch(async (error) => {
   process.stderr.write(`Server error: ${error}\n`);
-  lspClient.dispose();
+  await lspClient.dispose();
   process.exit(1);
 });
@@ -39,7 +39,7 @@ describe('Class Tools', () => {
     // Wait for file system
     await new Promise((resolve) => setTimeout(resolve, 50));
 
-    client = new LSPClient(TEST_CONFIG_PATH);
+    client = new LSPClient(TEST_CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
   });
 
   afterEach(() => {
@@ -696,6 +696,7 @@ describe('Class Tools', () => {
         writable: true,
         configurable: true,
       });
+      spyOn(client as any, 'ensureAllServersReady').mockResolvedValue([['test', mockServerState]]);
 
       // Mock sendRequest to return workspace symbols
       const sendRequestSpy = spyOn(client as any, 'sendRequest').mockResolvedValue([
@@ -761,6 +762,7 @@ describe('Class Tools', () => {
         writable: true,
         configurable: true,
       });
+      spyOn(client as any, 'ensureAllServersReady').mockResolvedValue([['test', mockServerState]]);
 
       spyOn(client as any, 'sendRequest').mockResolvedValue([
         {
@@ -835,6 +837,7 @@ describe('Class Tools', () => {
         writable: true,
         configurable: true,
       });
+      spyOn(client as any, 'ensureAllServersReady').mockResolvedValue([['test', mockServerState]]);
 
       // Mock sendRequest to return various type names
       spyOn(client as any, 'sendRequest').mockResolvedValue([
@@ -936,6 +939,7 @@ describe('Class Tools', () => {
         writable: true,
         configurable: true,
       });
+      spyOn(client as any, 'ensureAllServersReady').mockResolvedValue([['test', mockServerState]]);
 
       spyOn(client as any, 'sendRequest').mockResolvedValue([
         {
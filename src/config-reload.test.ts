@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, jest, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPClient } from './lsp-client.js';
+import type { LSPServerConfig } from './types.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-config-reload-test`
+  : '/tmp/cclsp-config-reload-test';
+
+const CONFIG_PATH = join(TEST_DIR, 'cclsp.json');
+
+const typescript = {
+  name: 'typescript',
+  extensions: ['ts'],
+  command: ['typescript-language-server', '--stdio'],
+  rootDir: TEST_DIR,
+};
+const go = { name: 'go', extensions: ['go'], command: ['gopls'], rootDir: TEST_DIR };
+const python = { name: 'python', extensions: ['py'], command: ['pylsp'], rootDir: TEST_DIR };
+
+const writeConfig = (servers: unknown[]) => {
+  writeFileSync(CONFIG_PATH, JSON.stringify({ servers }));
+};
+
+describe('configuration reload', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+  let startServerSpy: ReturnType<typeof spyOn>;
+  const originalConfigPath = process.env.CCLSP_CONFIG_PATH;
+
+  beforeEach(async () => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    Reflect.deleteProperty(process.env, 'CCLSP_CONFIG_PATH');
+    writeFileSync(join(TEST_DIR, 'main.ts'), 'export {};');
+    writeFileSync(join(TEST_DIR, 'main.py'), 'print(1)');
+    writeConfig([typescript, go]);
+
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    // Pin the user and project config lookups so a developer's own configs don't apply
+    client = new LSPClient(CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
+    startServerSpy = spyOn(client as any, 'startServer').mockImplementation(
+      async (config: unknown, rootDir: unknown) => ({
+        process: { kill: jest.fn() },
+        config,
+        rootDir,
+        openFiles: new Set(),
+      })
+    );
+
+    await (client as any).getServer(join(TEST_DIR, 'main.ts'));
+    await (client as any).getServer(join(TEST_DIR, 'main.go'));
+    startServerSpy.mockClear();
+  });
+
+  afterEach(() => {
+    client.dispose();
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    if (originalConfigPath === undefined) {
+      Reflect.deleteProperty(process.env, 'CCLSP_CONFIG_PATH');
+    } else {
+      process.env.CCLSP_CONFIG_PATH = originalConfigPath;
+    }
+  });
+
+  const runningServers = () =>
+    [...(client as any).servers.values()] as Array<{
+      config: LSPServerConfig;
+      process: { kill: ReturnType<typeof jest.fn> };
+    }>;
+
+  it('should only start, stop or restart the servers that changed', async () => {
+    const [typescriptState, goState] = runningServers();
+    writeConfig([{ ...go, command: ['gopls', 'serve'] }, python, typescript]);
+
+    const result = await client.reloadConfig();
+
+    expect(result).toEqual({
+      sources: [CONFIG_PATH],
+      added: ['python'],
+      removed: [],
+      changed: ['go'],
+      failed: [],
+      unchanged: 1,
+    });
+    expect(typescriptState?.process.kill).not.toHaveBeenCalled();
+    expect(goState?.process.kill).toHaveBeenCalled();
+    expect(
+      startServerSpy.mock.calls.map((call: unknown[]) => (call[0] as LSPServerConfig).command)
+    ).toEqual([['gopls', 'serve'], ['pylsp']]);
+    expect(runningServers()).toContain(typescriptState as never);
+    expect(await (client as any).getServer(join(TEST_DIR, 'main.ts'))).toBe(typescriptState);
+  });
+
+  it('should stop removed servers', async () => {
+    const [typescriptState, goState] = runningServers();
+    writeConfig([typescript]);
+
+    const result = await client.reloadConfig();
+
+    expect(result.removed).toEqual(['go']);
+    expect(goState?.process.kill).toHaveBeenCalled();
+    expect(runningServers()).toEqual([typescriptState as never]);
+    expect(client.getServerConfigForExtension('go')).toBeNull();
+  });
+
+  it('should keep the current configuration when the new one is invalid', async () => {
+    writeConfig([{ ...typescript, command: 'typescript-language-server' }]);
+
+    await expect(client.reloadConfig()).rejects.toThrow(
+      'servers[0].command: expected array, got string'
+    );
+    expect(runningServers()).toHaveLength(2);
+    expect(client.getServerConfigForExtension('go')?.command).toEqual(['gopls']);
+  });
+
+  it('should reload when a watched config file changes', async () => {
+    const reloadSpy = spyOn(client, 'reloadConfig');
+    client.watchConfig();
+
+    writeConfig([typescript]);
+    await new Promise((resolve) => setTimeout(resolve, 500));
+
+    expect(reloadSpy).toHaveBeenCalledTimes(1);
+    expect(runningServers()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,248 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import {
+  CONFIG_SCHEMA,
+  diffServerConfigs,
+  getProjectConfigPath,
+  getUserConfigPath,
+  loadConfig,
+  mergeConfigs,
+  parseJsonc,
+  validateConfig,
+} from './config.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-config-test`
+  : '/tmp/cclsp-config-test';
+
+const HOME_DIR = join(TEST_DIR, 'home');
+const PROJECT_DIR = join(TEST_DIR, 'project');
+
+const writeConfig = (path: string, content: unknown) => {
+  mkdirSync(dirname(path), { recursive: true });
+  writeFileSync(path, typeof content === 'string' ? content : JSON.stringify(content));
+};
+
+const typescript = { extensions: ['ts'], command: ['typescript-language-server', '--stdio'] };
+
+describe('config', () => {
+  const originalConfigPath = process.env.CCLSP_CONFIG_PATH;
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    Reflect.deleteProperty(process.env, 'CCLSP_CONFIG_PATH');
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    if (originalConfigPath === undefined) {
+      Reflect.deleteProperty(process.env, 'CCLSP_CONFIG_PATH');
+    } else {
+      process.env.CCLSP_CONFIG_PATH = originalConfigPath;
+    }
+  });
+
+  describe('parseJsonc', () => {
+    it('should ignore comments and trailing commas outside of strings', () => {
+      const text = `{
+        // line comment
+        "command": ["clangd", "--log=//verbose"], /* block */
+        "rootDir": "/*not a comment*/",
+        "extensions": ["c", "h",],
+      }`;
+
+      expect(parseJsonc(text)).toEqual({
+        command: ['clangd', '--log=//verbose'],
+        rootDir: '/*not a comment*/',
+        extensions: ['c', 'h'],
+      });
+    });
+
+    it('should remove trailing commas followed by comments', () => {
+      expect(parseJsonc('{"a": 1, // note\n}')).toEqual({ a: 1 });
+      expect(parseJsonc('[1, /* x */ ]')).toEqual([1]);
+      expect(parseJsonc('{"a": [1, "2",\n  // last\n  /* done */\n],\n}')).toEqual({ a: [1, '2'] });
+    });
+  });
+
+  describe('validateConfig', () => {
+    it('should accept a valid config', () => {
+      expect(
+        validateConfig({
+          $schema: './cclsp.schema.json',
+          servers: [{ ...typescript, env: { NODE_ENV: 'dev' }, initializationOptions: 1 }],
+        })
+      ).toEqual([]);
+    });
+
+    it('should name every offending field', () => {
+      expect(
+        validateConfig({
+          servers: [
+            typescript,
+            { extensions: [], command: ['gopls'], restartInterval: 0, env: { GOFLAGS: 1 } },
+            { extension: ['py'], command: ['pylsp'] },
+          ],
+          server: [],
+        })
+      ).toEqual([
+        'servers[1].extensions: must contain at least 1 item(s)',
+        'servers[1].restartInterval: must be greater than 0',
+        'servers[1].env.GOFLAGS: expected string, got number',
+        'servers[2].extensions: required property is missing',
+        'servers[2].extension: unknown property',
+        'server: unknown property',
+      ]);
+    });
+
+    it('should accept an idleTimeout of 0 but not a negative one', () => {
+      expect(
+        validateConfig({ idleTimeout: 10, servers: [{ ...typescript, idleTimeout: 0 }] })
+      ).toEqual([]);
+      expect(validateConfig({ idleTimeout: -1, servers: [] })).toEqual([
+        'idleTimeout: must be at least 0',
+      ]);
+    });
+
+    it('should validate timeouts at the top level and per server', () => {
+      expect(
+        validateConfig({
+          timeouts: { default: 10000, 'textDocument/hover': 2000 },
+          servers: [{ ...typescript, timeouts: { indexing: 60000 } }],
+        })
+      ).toEqual([]);
+      expect(
+        validateConfig({
+          timeouts: { startup: 0 },
+          servers: [{ ...typescript, timeouts: { 'workspace/symbol': '5s' } }],
+        })
+      ).toEqual([
+        'timeouts.startup: must be greater than 0',
+        'servers[0].timeouts.workspace/symbol: expected number, got string',
+      ]);
+    });
+
+    it('should not require properties in partial configs', () => {
+      expect(
+        validateConfig({ servers: [{ name: 'ts', settings: {} }] }, { partial: true })
+      ).toEqual([]);
+      expect(validateConfig({}, { partial: true })).toEqual([]);
+      expect(validateConfig({})).toEqual(['servers: required property is missing']);
+    });
+
+    it('should match the published schema file', () => {
+      const published = JSON.parse(
+        readFileSync(join(import.meta.dir, '..', 'cclsp.schema.json'), 'utf-8')
+      );
+      expect(published).toEqual(JSON.parse(JSON.stringify(CONFIG_SCHEMA)));
+    });
+  });
+
+  describe('mergeConfigs', () => {
+    it('should deep-merge servers with the same name and put overriding servers first', () => {
+      const merged = mergeConfigs(
+        {
+          servers: [
+            { ...typescript, name: 'ts', settings: { a: { b: 1, c: 2 } } },
+            { extensions: ['go'], command: ['gopls'] },
+          ],
+        },
+        {
+          servers: [
+            { extensions: ['py'], command: ['pylsp'] },
+            { name: 'ts', settings: { a: { c: 3 } }, rootMarkers: ['tsconfig.json'] },
+          ] as never,
+        }
+      );
+
+      expect(merged.servers).toEqual([
+        { extensions: ['py'], command: ['pylsp'] },
+        {
+          ...typescript,
+          name: 'ts',
+          settings: { a: { b: 1, c: 3 } },
+          rootMarkers: ['tsconfig.json'],
+        },
+        { extensions: ['go'], command: ['gopls'] },
+      ]);
+    });
+  });
+
+  describe('diffServerConfigs', () => {
+    it('should classify servers as added, removed, changed or unchanged', () => {
+      const go = { extensions: ['go'], command: ['gopls'] };
+      const python = { name: 'python', extensions: ['py'], command: ['pylsp'] };
+      const previous = [typescript, go, python];
+      const pythonWithSettings = { ...python, settings: { pylsp: {} } };
+      const rust = { extensions: ['rs'], command: ['rust-analyzer'] };
+
+      const diff = diffServerConfigs(previous, [rust, pythonWithSettings, { ...typescript }]);
+
+      expect(diff.added).toEqual([rust]);
+      expect(diff.removed).toEqual([go]);
+      expect(diff.changed).toEqual([{ previous: python, next: pythonWithSettings }]);
+      expect(diff.unchanged.map(({ previous }) => previous)).toEqual([typescript]);
+    });
+  });
+
+  describe('loadConfig', () => {
+    const options = { cwd: PROJECT_DIR, homeDir: HOME_DIR };
+
+    it('should merge the user, project and explicit configs in order', () => {
+      writeConfig(getUserConfigPath(HOME_DIR), {
+        servers: [{ ...typescript, settings: { typescript: { format: true } } }],
+      });
+      writeConfig(
+        getProjectConfigPath(PROJECT_DIR),
+        `{
+          // project overrides
+          "servers": [{ "extensions": ["ts"], "command": ["typescript-language-server", "--stdio"], "rootDir": "." }],
+        }`
+      );
+      const explicitPath = join(TEST_DIR, 'explicit.json');
+      writeConfig(explicitPath, { servers: [{ extensions: ['go'], command: ['gopls'] }] });
+
+      const { config, sources } = loadConfig({ ...options, configPath: explicitPath });
+
+      expect(sources.map((source) => source.kind)).toEqual(['user', 'project', 'file']);
+      expect(config.servers).toEqual([
+        { extensions: ['go'], command: ['gopls'] },
+        { ...typescript, settings: { typescript: { format: true } }, rootDir: '.' },
+      ]);
+    });
+
+    it('should prefer CCLSP_CONFIG_PATH over the configPath option', () => {
+      const envPath = join(TEST_DIR, 'env.json');
+      writeConfig(envPath, { servers: [typescript] });
+      process.env.CCLSP_CONFIG_PATH = envPath;
+
+      const { sources } = loadConfig({ ...options, configPath: join(TEST_DIR, 'missing.json') });
+
+      expect(sources).toEqual([{ kind: 'env', path: envPath }]);
+    });
+
+    it('should report missing, unparsable and invalid configs', () => {
+      expect(() => loadConfig(options)).toThrow('No configuration found');
+      expect(() => loadConfig({ ...options, configPath: join(TEST_DIR, 'missing.json') })).toThrow(
+        'does not exist'
+      );
+
+      writeConfig(getProjectConfigPath(PROJECT_DIR), '{ "servers": [ }');
+      expect(() => loadConfig(options)).toThrow(
+        `Failed to load config from ${getProjectConfigPath(PROJECT_DIR)}`
+      );
+
+      writeConfig(getProjectConfigPath(PROJECT_DIR), { servers: [{ command: ['gopls'] }] });
+      expect(() => loadConfig(options)).toThrow(
+        'servers[0].extensions: required property is missing'
+      );
+
+      writeConfig(getUserConfigPath(HOME_DIR), { servers: [{ ...typescript, secondary: 'yes' }] });
+      expect(() => loadConfig(options)).toThrow(
+        `Invalid config in ${getUserConfigPath(HOME_DIR)}:\n  - servers[0].secondary: expected boolean, got string`
+      );
+    });
+  });
+});
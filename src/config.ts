@@ -0,0 +1,520 @@
+import { existsSync, readFileSync } from 'node:fs';
+import { homedir } from 'node:os';
+import { join, resolve } from 'node:path';
+import type { Config, LSPServerConfig } from './types.js';
+
+/**
+ * JSON Schema for cclsp.json, published as cclsp.schema.json
+ */
+export const CONFIG_SCHEMA = {
+  $schema: 'http://json-schema.org/draft-07/schema#',
+  $id: 'https://raw.githubusercontent.com/ktnyt/cclsp/main/cclsp.schema.json',
+  title: 'cclsp configuration',
+  type: 'object',
+  properties: {
+    $schema: { type: 'string' },
+    servers: {
+      type: 'array',
+      description: 'Language servers, tried in order when selecting a server for a file',
+      items: { $ref: '#/definitions/server' },
+    },
+    idleTimeout: {
+      type: 'number',
+      description: 'Default for the idleTimeout of every server, in minutes',
+      minimum: 0,
+    },
+    timeouts: {
+      $ref: '#/definitions/timeouts',
+      description: 'Request timeouts for all servers',
+    },
+  },
+  required: ['servers'],
+  additionalProperties: false,
+  definitions: {
+    stringList: {
+      type: 'array',
+      items: { type: 'string' },
+    },
+    timeouts: {
+      type: 'object',
+      description:
+        'Timeouts in milliseconds by LSP method, or "default", "startup" (server ready after initialize) and "indexing" (workspace index before workspace queries)',
+      additionalProperties: { type: 'number', exclusiveMinimum: 0 },
+    },
+    server: {
+      type: 'object',
+      properties: {
+        extensions: {
+          type: 'array',
+          description: 'File extensions handled by this server, without the dot',
+          items: { type: 'string' },
+          minItems: 1,
+        },
+        command: {
+          type: 'array',
+          description: 'Command and arguments starting the server',
+          items: { type: 'string' },
+          minItems: 1,
+        },
+        rootDir: {
+          type: 'string',
+          description: 'Workspace root, defaults to the current directory',
+        },
+        restartInterval: {
+          type: 'number',
+          description: 'Restart the server every this many minutes, once no requests are pending',
+          exclusiveMinimum: 0,
+        },
+        maxMemory: {
+          type: 'number',
+          description:
+            'Restart the server once it and its child processes use more than this many megabytes of memory',
+          exclusiveMinimum: 0,
+        },
+        maxRequests: {
+          type: 'number',
+          description: 'Restart the server after it answered this many requests',
+          exclusiveMinimum: 0,
+        },
+        idleTimeout: {
+          type: 'number',
+          description:
+            'Stop the server after this many minutes without requests, 0 to keep it running',
+          minimum: 0,
+        },
+        initializationOptions: { description: 'Sent as-is in the initialize request' },
+        settings: {
+          type: 'object',
+          description: 'Served through workspace/configuration and didChangeConfiguration',
+        },
+        env: {
+          type: 'object',
+          description: 'Extra environment variables for the server process',
+          additionalProperties: { type: 'string' },
+        },
+        cwd: {
+          type: 'string',
+          description: 'Working directory for the server process, relative to the project root',
+        },
+        filePatterns: {
+          $ref: '#/definitions/stringList',
+          description: 'Globs selecting files for this server instead of extensions',
+        },
+        rootMarkers: {
+          $ref: '#/definitions/stringList',
+          description: 'Only use this server below a directory containing one of these files',
+        },
+        excludePatterns: {
+          $ref: '#/definitions/stringList',
+          description: 'Globs for files this server must never handle',
+        },
+        name: {
+          type: 'string',
+          description: 'Label for the server in merged results, defaults to its command',
+        },
+        secondary: {
+          type: 'boolean',
+          description:
+            'Attach next to the primary server for diagnostics, code actions and completions',
+        },
+        timeouts: {
+          $ref: '#/definitions/timeouts',
+          description: 'Request timeouts for this server, overriding the top-level ones key by key',
+        },
+      },
+      required: ['extensions', 'command'],
+      additionalProperties: false,
+    },
+  },
+} as const;
+
+interface SchemaNode {
+  $ref?: string;
+  type?: string;
+  properties?: Record<string, SchemaNode>;
+  required?: readonly string[];
+  additionalProperties?: boolean | SchemaNode;
+  items?: SchemaNode;
+  minItems?: number;
+  minimum?: number;
+  exclusiveMinimum?: number;
+}
+
+/**
+ * A configuration file cclsp reads, in increasing order of precedence
+ */
+export interface ConfigSource {
+  kind: 'user' | 'project' | 'env' | 'file';
+  path: string;
+}
+
+export interface LoadConfigOptions {
+  configPath?: string;
+  cwd?: string;
+  homeDir?: string;
+}
+
+/**
+ * Index just past the string literal starting at `start`
+ */
+function skipString(text: string, start: number): number {
+  let end = start + 1;
+  while (end < text.length && text[end] !== '"') {
+    end += text[end] === '\\' ? 2 : 1;
+  }
+  return end + 1;
+}
+
+function stripComments(text: string): string {
+  let result = '';
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i] as string;
+    const next = text[i + 1];
+
+    if (char === '"') {
+      const end = skipString(text, i);
+      result += text.slice(i, end);
+      i = end;
+    } else if (char === '/' && next === '/') {
+      while (i < text.length && text[i] !== '\n') {
+        i++;
+      }
+    } else if (char === '/' && next === '*') {
+      const end = text.indexOf('*/', i + 2);
+      // Keep line breaks so parse errors still point at the right line
+      const comment = text.slice(i, end === -1 ? text.length : end + 2);
+      result += comment.replace(/[^\n]/g, ' ');
+      i += comment.length;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+function stripTrailingCommas(text: string): string {
+  let result = '';
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i] as string;
+
+    if (char === '"') {
+      const end = skipString(text, i);
+      result += text.slice(i, end);
+      i = end;
+    } else if (char === ',') {
+      let lookahead = i + 1;
+      while (lookahead < text.length && /\s/.test(text[lookahead] as string)) {
+        lookahead++;
+      }
+      const following = text[lookahead];
+      if (following !== '}' && following !== ']') {
+        result += char;
+      }
+      i++;
+    } else {
+      result += char;
+      i++;
+    }
+  }
+  return result;
+}
+
+/**
+ * Strip comments and trailing commas from JSONC text, leaving strings untouched.
+ * Comments go first, so commas followed by a comment are recognized as trailing.
+ */
+export function stripJsonComments(text: string): string {
+  return stripTrailingCommas(stripComments(text));
+}
+
+export function parseJsonc(text: string): unknown {
+  return JSON.parse(stripJsonComments(text));
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'string':
+      return typeof value === 'string';
+    case 'boolean':
+      return typeof value === 'boolean';
+    default:
+      return true;
+  }
+}
+
+function resolveRef(node: SchemaNode): SchemaNode {
+  if (!node.$ref) {
+    return node;
+  }
+  const name = node.$ref.replace('#/definitions/', '') as keyof typeof CONFIG_SCHEMA.definitions;
+  return { ...(CONFIG_SCHEMA.definitions[name] as SchemaNode), ...node, $ref: undefined };
+}
+
+function validateNode(
+  value: unknown,
+  schemaNode: SchemaNode,
+  path: string,
+  partial: boolean,
+  errors: string[]
+): void {
+  const node = resolveRef(schemaNode);
+  const label = path || 'config';
+
+  if (node.type && !matchesType(value, node.type)) {
+    errors.push(`${label}: expected ${node.type}, got ${describeType(value)}`);
+    return;
+  }
+
+  if (Array.isArray(value)) {
+    if (node.minItems !== undefined && value.length < node.minItems) {
+      errors.push(`${label}: must contain at least ${node.minItems} item(s)`);
+    }
+    if (node.items) {
+      value.forEach((item, index) => {
+        validateNode(item, node.items as SchemaNode, `${path}[${index}]`, partial, errors);
+      });
+    }
+    return;
+  }
+
+  if (typeof value === 'number') {
+    if (node.minimum !== undefined && value < node.minimum) {
+      errors.push(`${label}: must be at least ${node.minimum}`);
+    }
+    if (node.exclusiveMinimum !== undefined && value <= node.exclusiveMinimum) {
+      errors.push(`${label}: must be greater than ${node.exclusiveMinimum}`);
+    }
+    return;
+  }
+
+  if (node.type !== 'object' || !value || typeof value !== 'object') {
+    return;
+  }
+
+  const record = value as Record<string, unknown>;
+  if (!partial) {
+    for (const key of node.required ?? []) {
+      if (!(key in record)) {
+        errors.push(`${path ? `${path}.` : ''}${key}: required property is missing`);
+      }
+    }
+  }
+
+  for (const [key, child] of Object.entries(record)) {
+    const childPath = path ? `${path}.${key}` : key;
+    const propertySchema = node.properties?.[key];
+    if (propertySchema) {
+      validateNode(child, propertySchema, childPath, partial, errors);
+    } else if (node.additionalProperties === false) {
+      errors.push(`${childPath}: unknown property`);
+    } else if (typeof node.additionalProperties === 'object') {
+      validateNode(child, node.additionalProperties, childPath, partial, errors);
+    }
+  }
+}
+
+/**
+ * Validate a configuration against CONFIG_SCHEMA. Returns one message per problem, each
+ * starting with the path of the offending field (e.g. `servers[1].command`). With
+ * `partial`, required properties are not enforced, for layers that only override fields.
+ */
+export function validateConfig(value: unknown, options: { partial?: boolean } = {}): string[] {
+  const errors: string[] = [];
+  validateNode(value, CONFIG_SCHEMA as unknown as SchemaNode, '', options.partial ?? false, errors);
+  return errors;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep-merge plain objects. Arrays and other values from `override` replace those in `base`.
+ */
+export function deepMerge(base: unknown, override: unknown): unknown {
+  if (!isPlainObject(base) || !isPlainObject(override)) {
+    return override === undefined ? base : override;
+  }
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    result[key] = deepMerge(base[key], value);
+  }
+  return result;
+}
+
+function serverIdentity(server: Partial<LSPServerConfig>): string {
+  return server.name ?? (server.command ?? []).join(' ');
+}
+
+/**
+ * Merge a higher-precedence configuration layer into a lower one. Servers with the same
+ * `name` (or the same command when unnamed) are deep-merged; the overriding layer's
+ * servers come first so they win server selection, followed by the remaining base servers.
+ */
+export function mergeConfigs(base: Partial<Config>, override: Partial<Config>): Partial<Config> {
+  const { servers: baseServers = [], ...baseRest } = base;
+  const { servers: overrideServers, ...overrideRest } = override;
+  const merged = deepMerge(baseRest, overrideRest) as Partial<Config>;
+
+  if (!overrideServers) {
+    return { ...merged, servers: baseServers };
+  }
+
+  const remaining = [...baseServers];
+  const servers = overrideServers.map((server) => {
+    const index = remaining.findIndex(
+      (candidate) => serverIdentity(candidate) === serverIdentity(server)
+    );
+    if (index === -1) {
+      return server;
+    }
+    const [matched] = remaining.splice(index, 1);
+    return deepMerge(matched, server) as LSPServerConfig;
+  });
+  return { ...merged, servers: [...servers, ...remaining] };
+}
+
+export function getUserConfigPath(homeDir = homedir()): string {
+  return join(homeDir, '.config', 'claude', 'cclsp.json');
+}
+
+export function getProjectConfigPath(cwd = process.cwd()): string {
+  return join(cwd, '.claude', 'cclsp.json');
+}
+
+/**
+ * Configuration files in increasing order of precedence: the user config, the project
+ * config, and the file named by CCLSP_CONFIG_PATH or passed explicitly. The last one is
+ * included even when missing so that loading reports it.
+ */
+export function getConfigSources(options: LoadConfigOptions = {}): ConfigSource[] {
+  const sources: ConfigSource[] = [
+    { kind: 'user', path: getUserConfigPath(options.homeDir) },
+    { kind: 'project', path: getProjectConfigPath(options.cwd) },
+  ];
+  if (process.env.CCLSP_CONFIG_PATH) {
+    sources.push({ kind: 'env', path: resolve(process.env.CCLSP_CONFIG_PATH) });
+  } else if (options.configPath) {
+    sources.push({ kind: 'file', path: resolve(options.configPath) });
+  }
+
+  // The same file may be both the project config and the explicit one
+  return sources.filter(
+    (source, index) => sources.findIndex((other) => other.path === source.path) === index
+  );
+}
+
+function readConfigFile(source: ConfigSource): Partial<Config> {
+  let parsed: unknown;
+  try {
+    parsed = parseJsonc(readFileSync(source.path, 'utf-8'));
+  } catch (error) {
+    throw new Error(
+      `Failed to load config from ${source.path}: ${error instanceof Error ? error.message : error}`
+    );
+  }
+
+  const errors = validateConfig(parsed, { partial: true });
+  if (errors.length > 0) {
+    throw new Error(`Invalid config in ${source.path}:\n  - ${errors.join('\n  - ')}`);
+  }
+  return parsed as Partial<Config>;
+}
+
+/**
+ * Load and merge all configuration layers. Throws with a message naming the file and the
+ * offending fields when a file can't be read or doesn't match the schema.
+ */
+export function loadConfig(options: LoadConfigOptions = {}): {
+  config: Config;
+  sources: ConfigSource[];
+} {
+  const loaded: ConfigSource[] = [];
+  let merged: Partial<Config> = {};
+
+  for (const source of getConfigSources(options)) {
+    if (!existsSync(source.path)) {
+      if (source.kind === 'user' || source.kind === 'project') {
+        continue;
+      }
+      const origin = source.kind === 'env' ? 'CCLSP_CONFIG_PATH' : 'configPath';
+      throw new Error(
+        `Failed to load config from ${source.path}: file specified in ${origin} does not exist`
+      );
+    }
+    merged = mergeConfigs(merged, readConfigFile(source));
+    loaded.push(source);
+  }
+
+  if (loaded.length === 0) {
+    throw new Error(
+      `No configuration found. Create ${getProjectConfigPath(options.cwd)} or ${getUserConfigPath(options.homeDir)}, set CCLSP_CONFIG_PATH, or run \`cclsp setup\``
+    );
+  }
+
+  const errors = validateConfig(merged);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid config merged from ${loaded.map((source) => source.path).join(', ')}:\n  - ${errors.join('\n  - ')}`
+    );
+  }
+  return { config: merged as Config, sources: loaded };
+}
+
+/**
+ * Difference between two server lists. Servers are matched by `name`, or by command when
+ * unnamed; a matched server whose fields differ in any way is reported as changed.
+ */
+export interface ServerConfigDiff {
+  added: LSPServerConfig[];
+  removed: LSPServerConfig[];
+  changed: Array<{ previous: LSPServerConfig; next: LSPServerConfig }>;
+  unchanged: Array<{ previous: LSPServerConfig; next: LSPServerConfig }>;
+}
+
+export function diffServerConfigs(
+  previousServers: LSPServerConfig[],
+  nextServers: LSPServerConfig[]
+): ServerConfigDiff {
+  const diff: ServerConfigDiff = { added: [], removed: [], changed: [], unchanged: [] };
+  const remaining = [...previousServers];
+
+  for (const next of nextServers) {
+    // Prefer an identical entry, so duplicated commands pair up with their own config
+    let index = remaining.findIndex(
+      (previous) => JSON.stringify(previous) === JSON.stringify(next)
+    );
+    if (index === -1) {
+      index = remaining.findIndex((previous) => serverIdentity(previous) === serverIdentity(next));
+    }
+    if (index === -1) {
+      diff.added.push(next);
+      continue;
+    }
+
+    const [previous] = remaining.splice(index, 1) as [LSPServerConfig];
+    if (JSON.stringify(previous) === JSON.stringify(next)) {
+      diff.unchanged.push({ previous, next });
+    } else {
+      diff.changed.push({ previous, next });
+    }
+  }
+
+  diff.removed = remaining;
+  return diff;
+}
@@ -0,0 +1,166 @@
+import { afterEach, beforeEach, describe, expect, it, jest, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPClient } from './lsp-client.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-crash-recovery-test`
+  : '/tmp/cclsp-crash-recovery-test';
+
+const FILE_PATH = join(TEST_DIR, 'main.py');
+const MARKER_PATH = join(TEST_DIR, 'crashed-once');
+
+// Stand-in server: reports itself initialized, and the first time it runs it exits as soon
+// as it receives a request. Later runs stay up.
+const CRASH_ONCE_SCRIPT = `
+  const fs = require('node:fs');
+  const body = JSON.stringify({ jsonrpc: '2.0', method: 'initialized', params: {} });
+  process.stdout.write('Content-Length: ' + body.length + '\\r\\n\\r\\n' + body);
+  const crash = !fs.existsSync(${JSON.stringify(MARKER_PATH)});
+  process.stdin.on('data', (data) => {
+    if (crash && data.toString().includes('"id":')) {
+      fs.writeFileSync(${JSON.stringify(MARKER_PATH)}, '');
+      process.exit(3);
+    }
+  });
+`;
+
+describe('crash recovery', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(FILE_PATH, 'print(1)\n');
+    const configPath = join(TEST_DIR, 'cclsp.json');
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        servers: [
+          {
+            name: 'python',
+            extensions: ['py'],
+            command: [process.execPath, '-e', CRASH_ONCE_SCRIPT],
+            rootDir: TEST_DIR,
+          },
+        ],
+      })
+    );
+
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    client = new LSPClient(configPath, { cwd: TEST_DIR, homeDir: TEST_DIR });
+    spyOn(client as any, 'getCrashRestartDelay').mockReturnValue(10);
+  });
+
+  afterEach(async () => {
+    await client.dispose();
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should reject in-flight requests, restart the server and reopen its files', async () => {
+    const sendRequest = (client as any).sendRequest.bind(client);
+    spyOn(client as any, 'sendRequest').mockImplementation(
+      (serverProcess: unknown, method: string, params: unknown, timeout?: number) =>
+        method === 'initialize'
+          ? Promise.resolve({ capabilities: {} })
+          : sendRequest(serverProcess, method, params, timeout)
+    );
+
+    const crashed = await (client as any).getServer(FILE_PATH);
+    await (client as any).ensureFileOpen(crashed, FILE_PATH);
+
+    const startedAt = Date.now();
+    await expect(
+      (client as any).sendRequest(crashed.process, 'textDocument/hover', {
+        textDocument: { uri: 'file:///main.py' },
+        position: { line: 0, character: 0 },
+      })
+    ).rejects.toThrow('python exited with code 3 before responding');
+    expect(Date.now() - startedAt).toBeLessThan(5000);
+
+    const restarted = await (client as any).getServer(FILE_PATH);
+
+    expect(restarted).not.toBe(crashed);
+    expect(restarted.exited).toBeFalsy();
+    expect([...restarted.openFiles]).toEqual([FILE_PATH]);
+    expect(client.getServerStatus()).toMatchObject([
+      { name: 'python', status: 'running', crashCount: 1, lastCrashReason: 'exited with code 3' },
+    ]);
+  });
+
+  it('should stop restarting after repeated crashes until restarted manually', async () => {
+    const startServerSpy = spyOn(client as any, 'startServer').mockImplementation(
+      async (config: unknown, rootDir: unknown) => ({
+        process: { kill: jest.fn(), pid: 42 },
+        config,
+        rootDir,
+        openFiles: new Set(),
+        startTime: Date.now(),
+      })
+    );
+    await (client as any).getServer(FILE_PATH);
+    const [key] = [...(client as any).servers.keys()];
+
+    for (let crash = 1; crash <= 6; crash++) {
+      (client as any).handleServerExit((client as any).servers.get(key), 'exited with code 1');
+      await (client as any).crashes.get(key).restart;
+    }
+
+    expect(startServerSpy).toHaveBeenCalledTimes(6);
+    expect(client.getServerStatus()).toMatchObject([{ status: 'failed', crashCount: 6 }]);
+    await expect((client as any).getServer(FILE_PATH)).rejects.toThrow('restart_server');
+
+    const result = await client.restartServers();
+
+    expect(result.success).toBe(true);
+    expect(client.getServerStatus()).toMatchObject([{ status: 'running', crashCount: 0 }]);
+  });
+
+  it('should cut the backoff short and not restart crashed servers on dispose', async () => {
+    const startServerSpy = spyOn(client as any, 'startServer').mockImplementation(
+      async (config: unknown, rootDir: unknown) => ({
+        process: { kill: jest.fn(), pid: 42 },
+        config,
+        rootDir,
+        openFiles: new Set(),
+        startTime: Date.now(),
+      })
+    );
+    (client as any).getCrashRestartDelay.mockReturnValue(60000);
+    const serverState = await (client as any).getServer(FILE_PATH);
+    const [key] = [...(client as any).servers.keys()];
+    (client as any).handleServerExit(serverState, 'exited with code 1');
+    let restarted = false;
+    (client as any).crashes.get(key).restart.then(() => {
+      restarted = true;
+    });
+
+    await client.dispose();
+
+    expect(restarted).toBe(true);
+    expect(startServerSpy).toHaveBeenCalledTimes(1);
+    expect(client.getServerStatus()).toEqual([]);
+  });
+
+  it('should not treat servers stopped on purpose as crashed', async () => {
+    spyOn(client as any, 'startServer').mockImplementation(
+      async (config: unknown, rootDir: unknown) => ({
+        process: { kill: jest.fn() },
+        config,
+        rootDir,
+        openFiles: new Set(),
+        startTime: Date.now(),
+      })
+    );
+    const serverState = await (client as any).getServer(FILE_PATH);
+    const scheduleSpy = spyOn(client as any, 'scheduleCrashRestart');
+
+    client.dispose();
+    (client as any).handleServerExit(serverState, 'killed by SIGTERM');
+
+    expect(scheduleSpy).not.toHaveBeenCalled();
+    expect(client.getServerStatus()).toEqual([]);
+  });
+});
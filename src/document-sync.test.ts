@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  computeIncrementalChange,
+  getChangeSyncKind,
+  getSaveOptions,
+  offsetToPosition,
+} from './document-sync.js';
+import { TextDocumentSyncKind } from './types.js';
+
+describe('document sync helpers', () => {
+  describe('getChangeSyncKind', () => {
+    it('should default to full sync when capabilities are missing', () => {
+      expect(getChangeSyncKind(undefined)).toBe(TextDocumentSyncKind.Full);
+      expect(getChangeSyncKind({})).toBe(TextDocumentSyncKind.Full);
+    });
+
+    it('should accept a bare sync kind', () => {
+      expect(getChangeSyncKind({ textDocumentSync: TextDocumentSyncKind.Incremental })).toBe(
+        TextDocumentSyncKind.Incremental
+      );
+      expect(getChangeSyncKind({ textDocumentSync: TextDocumentSyncKind.None })).toBe(
+        TextDocumentSyncKind.None
+      );
+    });
+
+    it('should read the change field of sync options', () => {
+      expect(
+        getChangeSyncKind({
+          textDocumentSync: { openClose: true, change: TextDocumentSyncKind.Incremental },
+        })
+      ).toBe(TextDocumentSyncKind.Incremental);
+    });
+  });
+
+  describe('getSaveOptions', () => {
+    it('should not notify when save is not advertised', () => {
+      expect(getSaveOptions({ textDocumentSync: TextDocumentSyncKind.Full })).toEqual({
+        notify: false,
+        includeText: false,
+      });
+    });
+
+    it('should handle boolean and object save options', () => {
+      expect(getSaveOptions({ textDocumentSync: { save: true } })).toEqual({
+        notify: true,
+        includeText: false,
+      });
+      expect(getSaveOptions({ textDocumentSync: { save: { includeText: true } } })).toEqual({
+        notify: true,
+        includeText: true,
+      });
+    });
+  });
+
+  describe('offsetToPosition', () => {
+    it('should convert offsets across lines', () => {
+      const text = 'abc\ndef\nghi';
+      expect(offsetToPosition(text, 0)).toEqual({ line: 0, character: 0 });
+      expect(offsetToPosition(text, 5)).toEqual({ line: 1, character: 1 });
+      expect(offsetToPosition(text, text.length)).toEqual({ line: 2, character: 3 });
+    });
+  });
+
+  describe('computeIncrementalChange', () => {
+    it('should return null for identical texts', () => {
+      expect(computeIncrementalChange('same', 'same')).toBeNull();
+    });
+
+    it('should produce a minimal replacement range', () => {
+      const change = computeIncrementalChange('const foo = 1;\n', 'const barbaz = 1;\n');
+      expect(change).toEqual({
+        range: {
+          start: { line: 0, character: 6 },
+          end: { line: 0, character: 9 },
+        },
+        text: 'barbaz',
+      });
+    });
+
+    it('should handle insertions spanning lines', () => {
+      const change = computeIncrementalChange('a\nc\n', 'a\nb\nc\n');
+      expect(change).toEqual({
+        range: {
+          start: { line: 1, character: 0 },
+          end: { line: 1, character: 0 },
+        },
+        text: 'b\n',
+      });
+    });
+
+    it('should not send a rangeLength for edits of multi-byte text', () => {
+      const change = computeIncrementalChange('const 名前 = 1;', 'const 名称 = 1;');
+      expect(change).toEqual({
+        range: {
+          start: { line: 0, character: 7 },
+          end: { line: 0, character: 8 },
+        },
+        text: '称',
+      });
+    });
+
+    it('should not split surrogate pairs', () => {
+      const change = computeIncrementalChange('x = "😀";', 'x = "😁";');
+      expect(change?.text).toBe('😁');
+      expect(change && 'range' in change ? change.range.start.character : -1).toBe(5);
+    });
+
+    it('should reproduce the new text when applied', () => {
+      const oldText = 'line one\nline two\nline three\n';
+      const newText = 'line one\nline 2\nline three\nline four\n';
+      const change = computeIncrementalChange(oldText, newText);
+      expect(change).not.toBeNull();
+      if (!change || !('range' in change)) return;
+
+      const lines = oldText.split('\n');
+      const toOffset = (line: number, character: number) =>
+        lines.slice(0, line).reduce((sum, l) => sum + l.length + 1, 0) + character;
+      const start = toOffset(change.range.start.line, change.range.start.character);
+      const end = toOffset(change.range.end.line, change.range.end.character);
+
+      expect(oldText.substring(0, start) + change.text + oldText.substring(end)).toBe(newText);
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import type {
+  Position,
+  ServerCapabilities,
+  TextDocumentContentChangeEvent,
+  TextDocumentSyncOptions,
+} from './types.js';
+import { TextDocumentSyncKind } from './types.js';
+
+/**
+ * Normalize the textDocumentSync capability into its options form.
+ * Servers may advertise either a bare TextDocumentSyncKind or a TextDocumentSyncOptions object.
+ */
+function getSyncOptions(capabilities?: ServerCapabilities): TextDocumentSyncOptions | undefined {
+  const sync = capabilities?.textDocumentSync;
+  if (sync === undefined || sync === null) {
+    return undefined;
+  }
+  if (typeof sync === 'number') {
+    return { openClose: true, change: sync };
+  }
+  return sync;
+}
+
+/**
+ * Get the kind of didChange notifications a server expects.
+ * Falls back to full content sync when the server did not report its capabilities.
+ */
+export function getChangeSyncKind(capabilities?: ServerCapabilities): TextDocumentSyncKind {
+  const options = getSyncOptions(capabilities);
+  if (!options || options.change === undefined) {
+    return TextDocumentSyncKind.Full;
+  }
+  return options.change;
+}
+
+/**
+ * Get whether a server wants didSave notifications and whether they should carry the text
+ */
+export function getSaveOptions(capabilities?: ServerCapabilities): {
+  notify: boolean;
+  includeText: boolean;
+} {
+  const save = getSyncOptions(capabilities)?.save;
+  if (!save) {
+    return { notify: false, includeText: false };
+  }
+  if (save === true) {
+    return { notify: true, includeText: false };
+  }
+  return { notify: true, includeText: save.includeText === true };
+}
+
+/**
+ * Convert a string offset into a 0-indexed line/character position
+ */
+export function offsetToPosition(text: string, offset: number): Position {
+  let line = 0;
+  let lineStart = 0;
+
+  for (let i = 0; i < offset && i < text.length; i++) {
+    if (text[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+
+  return { line, character: Math.min(offset, text.length) - lineStart };
+}
+
+/**
+ * Compute a single incremental change that turns oldText into newText.
+ * The changed region is found by trimming the common prefix and suffix of both texts.
+ * The deprecated `rangeLength` is left out: it counts UTF-16 code units, which servers
+ * using another position encoding would check against their own.
+ * Returns null when the texts are identical.
+ */
+export function computeIncrementalChange(
+  oldText: string,
+  newText: string
+): TextDocumentContentChangeEvent | null {
+  if (oldText === newText) {
+    return null;
+  }
+
+  const maxPrefix = Math.min(oldText.length, newText.length);
+  let prefix = 0;
+  while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+
+  // Never split a surrogate pair, positions must land on whole characters
+  if (prefix > 0 && isHighSurrogate(oldText.charCodeAt(prefix - 1))) {
+    prefix--;
+  }
+
+  const maxSuffix = Math.min(oldText.length, newText.length) - prefix;
+  let suffix = 0;
+  while (
+    suffix < maxSuffix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  if (suffix > 0 && isLowSurrogate(oldText.charCodeAt(oldText.length - suffix))) {
+    suffix--;
+  }
+
+  const oldEnd = oldText.length - suffix;
+  return {
+    range: {
+      start: offsetToPosition(oldText, prefix),
+      end: offsetToPosition(oldText, oldEnd),
+    },
+    text: newText.substring(prefix, newText.length - suffix),
+  };
+}
+
+function isHighSurrogate(code: number): boolean {
+  return code >= 0xd800 && code <= 0xdbff;
+}
+
+function isLowSurrogate(code: number): boolean {
+  return code >= 0xdc00 && code <= 0xdfff;
+}
@@ -27,7 +27,7 @@ describe('getSignatureHelp', () => {
 
     mkdirSync(TEST_DIR, { recursive: true });
     writeFileSync(CONFIG_PATH, JSON.stringify(testConfig, null, 2));
-    client = new LSPClient(CONFIG_PATH);
+    client = new LSPClient(CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
   };
 
   const teardownTest = () => {
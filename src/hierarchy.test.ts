@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPClient } from './lsp-client.js';
+import { type CallHierarchyItem, SymbolKind, type TypeHierarchyItem } from './types.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-hierarchy-test`
+  : '/tmp/cclsp-hierarchy-test';
+
+const TEST_CONFIG_PATH = join(TEST_DIR, 'test-config.json');
+
+const createItem = (name: string, line: number): CallHierarchyItem => ({
+  name,
+  kind: SymbolKind.Function,
+  uri: 'file:///project/calls.ts',
+  range: { start: { line, character: 0 }, end: { line: line + 2, character: 1 } },
+  selectionRange: { start: { line, character: 9 }, end: { line, character: 9 + name.length } },
+});
+
+const callAt = (line: number) => ({
+  start: { line, character: 2 },
+  end: { line, character: 8 },
+});
+
+describe('Call hierarchy', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(
+      TEST_CONFIG_PATH,
+      JSON.stringify({
+        servers: [
+          {
+            extensions: ['ts'],
+            command: ['typescript-language-server', '--stdio'],
+            rootDir: TEST_DIR,
+          },
+        ],
+      })
+    );
+
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    client = new LSPClient(TEST_CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
+    spyOn(client as any, 'getServer').mockResolvedValue({
+      initializationPromise: Promise.resolve(),
+      process: {},
+    });
+    spyOn(client as any, 'ensureFileOpen').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should expand incoming calls to the requested depth', async () => {
+    const target = createItem('target', 0);
+    const caller = createItem('caller', 10);
+    const topLevel = createItem('main', 20);
+
+    const sendRequestSpy = spyOn(client as any, 'sendRequest').mockImplementation(
+      async (_process: unknown, method: string, params: any) => {
+        if (method === 'textDocument/prepareCallHierarchy') return [target];
+        if (params.item.name === 'target') return [{ from: caller, fromRanges: [callAt(11)] }];
+        if (params.item.name === 'caller') return [{ from: topLevel, fromRanges: [callAt(21)] }];
+        return [];
+      }
+    );
+
+    const shallow = await client.getCallHierarchy(
+      '/project/calls.ts',
+      { line: 0, character: 9 },
+      'incoming'
+    );
+    expect(shallow).toHaveLength(1);
+    expect(shallow[0]?.children.map((node) => node.item.name)).toEqual(['caller']);
+    expect(shallow[0]?.children[0]?.children).toEqual([]);
+
+    const deep = await client.getCallHierarchy(
+      '/project/calls.ts',
+      { line: 0, character: 9 },
+      'incoming',
+      2
+    );
+    const callerNode = deep[0]?.children[0];
+    expect(callerNode?.callRanges).toEqual([callAt(11)]);
+    expect(callerNode?.children.map((node) => node.item.name)).toEqual(['main']);
+    expect(sendRequestSpy).toHaveBeenCalledWith({}, 'callHierarchy/incomingCalls', {
+      item: caller,
+    });
+  });
+
+  it('should stop at recursive calls and mark them as cycles', async () => {
+    const even = createItem('isEven', 0);
+    const odd = createItem('isOdd', 10);
+
+    const sendRequestSpy = spyOn(client as any, 'sendRequest').mockImplementation(
+      async (_process: unknown, method: string, params: any) => {
+        if (method === 'textDocument/prepareCallHierarchy') return [even];
+        if (params.item.name === 'isEven') return [{ to: odd, fromRanges: [callAt(1)] }];
+        return [{ to: even, fromRanges: [callAt(11)] }];
+      }
+    );
+
+    const roots = await client.getCallHierarchy(
+      '/project/calls.ts',
+      { line: 0, character: 9 },
+      'outgoing',
+      5
+    );
+
+    const oddNode = roots[0]?.children[0];
+    expect(oddNode?.item.name).toBe('isOdd');
+    expect(oddNode?.children[0]?.item.name).toBe('isEven');
+    expect(oddNode?.children[0]?.cycle).toBe(true);
+    expect(oddNode?.children[0]?.children).toEqual([]);
+
+    const methods = sendRequestSpy.mock.calls.map((call: unknown[]) => call[1] as string);
+    expect(methods.filter((method) => method === 'callHierarchy/outgoingCalls')).toHaveLength(2);
+  });
+
+  it('should return no roots when the server cannot prepare a call hierarchy', async () => {
+    spyOn(client as any, 'sendRequest').mockResolvedValue(null);
+
+    const roots = await client.getCallHierarchy(
+      '/project/calls.ts',
+      { line: 0, character: 0 },
+      'incoming'
+    );
+
+    expect(roots).toEqual([]);
+  });
+});
+
+describe('Type hierarchy', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+
+  const createType = (name: string, line: number, kind = SymbolKind.Class): TypeHierarchyItem => ({
+    name,
+    kind,
+    uri: 'file:///project/types.ts',
+    range: { start: { line, character: 0 }, end: { line: line + 5, character: 1 } },
+    selectionRange: { start: { line, character: 6 }, end: { line, character: 6 + name.length } },
+  });
+
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(
+      TEST_CONFIG_PATH,
+      JSON.stringify({
+        servers: [
+          {
+            extensions: ['ts'],
+            command: ['typescript-language-server', '--stdio'],
+            rootDir: TEST_DIR,
+          },
+        ],
+      })
+    );
+
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    client = new LSPClient(TEST_CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
+    spyOn(client as any, 'getServer').mockResolvedValue({
+      initializationPromise: Promise.resolve(),
+      process: {},
+    });
+    spyOn(client as any, 'ensureFileOpen').mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should resolve the class by name and expand supertypes and subtypes', async () => {
+    const dog = createType('Dog', 10);
+    const animal = createType('Animal', 0);
+    const entity = createType('Entity', 20, SymbolKind.Interface);
+    const puppy = createType('Puppy', 30);
+
+    spyOn(client, 'getDocumentSymbols').mockResolvedValue([
+      {
+        name: 'Dog',
+        kind: SymbolKind.Class,
+        range: dog.range,
+        selectionRange: dog.selectionRange,
+        children: [],
+      },
+    ]);
+    const sendRequestSpy = spyOn(client as any, 'sendRequest').mockImplementation(
+      async (_process: unknown, method: string, params: any) => {
+        if (method === 'textDocument/prepareTypeHierarchy') return [dog];
+        if (method === 'typeHierarchy/supertypes') {
+          if (params.item.name === 'Dog') return [animal];
+          if (params.item.name === 'Animal') return [entity];
+          return [];
+        }
+        return params.item.name === 'Dog' ? [puppy] : [];
+      }
+    );
+
+    const [hierarchy] = await client.getTypeHierarchy('/project/types.ts', 'Dog');
+
+    expect(sendRequestSpy.mock.calls[0]?.[2]).toEqual({
+      textDocument: { uri: 'file:///project/types.ts' },
+      position: dog.selectionRange.start,
+    });
+    expect(hierarchy?.item.name).toBe('Dog');
+    expect(hierarchy?.supertypes[0]?.item.name).toBe('Animal');
+    expect(hierarchy?.supertypes[0]?.children[0]?.item.name).toBe('Entity');
+    expect(hierarchy?.subtypes.map((node) => node.item.name)).toEqual(['Puppy']);
+  });
+
+  it('should only expand the requested direction and mark cycles', async () => {
+    const a = createType('A', 0);
+    const b = createType('B', 10);
+
+    spyOn(client, 'getDocumentSymbols').mockResolvedValue([
+      { name: 'A', kind: SymbolKind.Class, range: a.range, selectionRange: a.selectionRange },
+    ]);
+    const sendRequestSpy = spyOn(client as any, 'sendRequest').mockImplementation(
+      async (_process: unknown, method: string, params: any) => {
+        if (method === 'textDocument/prepareTypeHierarchy') return [a];
+        return params.item.name === 'A' ? [b] : [a];
+      }
+    );
+
+    const [hierarchy] = await client.getTypeHierarchy('/project/types.ts', 'A', 'supertypes', 5);
+
+    expect(hierarchy?.subtypes).toEqual([]);
+    expect(hierarchy?.supertypes[0]?.children[0]?.item.name).toBe('A');
+    expect(hierarchy?.supertypes[0]?.children[0]?.cycle).toBe(true);
+    const methods = sendRequestSpy.mock.calls.map((call: unknown[]) => call[1] as string);
+    expect(methods).not.toContain('typeHierarchy/subtypes');
+  });
+
+  it('should return nothing when the class is not found', async () => {
+    spyOn(client, 'getDocumentSymbols').mockResolvedValue([]);
+    const sendRequestSpy = spyOn(client as any, 'sendRequest');
+
+    expect(await client.getTypeHierarchy('/project/types.ts', 'Missing')).toEqual([]);
+    expect(sendRequestSpy).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, jest, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPClient } from './lsp-client.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-idle-shutdown-test`
+  : '/tmp/cclsp-idle-shutdown-test';
+
+const CONFIG_PATH = join(TEST_DIR, 'cclsp.json');
+const TS_FILE = join(TEST_DIR, 'main.ts');
+const GO_FILE = join(TEST_DIR, 'main.go');
+
+// 60ms, in minutes
+const IDLE_TIMEOUT = 0.001;
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('idle shutdown', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+  let startServerSpy: ReturnType<typeof spyOn>;
+
+  const createClient = (config: unknown) => {
+    writeFileSync(CONFIG_PATH, JSON.stringify(config));
+    client = new LSPClient(CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
+
+    // Fake server states, going through the idle scheduling like real ones
+    startServerSpy = spyOn(client as any, 'startServer').mockImplementation(
+      async (serverConfig: unknown, rootDir: unknown) => {
+        const serverState = {
+          process: { kill: jest.fn(), stdin: { write: jest.fn() } },
+          config: serverConfig,
+          rootDir,
+          openFiles: new Set(),
+          startTime: Date.now(),
+          lastActivity: Date.now(),
+        };
+        (client as any).scheduleIdleShutdown(serverState);
+        return serverState;
+      }
+    );
+  };
+
+  const typescript = {
+    extensions: ['ts'],
+    command: ['typescript-language-server', '--stdio'],
+    rootDir: TEST_DIR,
+  };
+  const go = { extensions: ['go'], command: ['gopls'], rootDir: TEST_DIR };
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(async () => {
+    await client.dispose();
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should stop idle servers and start them again on the next request', async () => {
+    createClient({ servers: [{ ...typescript, idleTimeout: IDLE_TIMEOUT }] });
+
+    const first = await (client as any).getServer(TS_FILE);
+    await wait(150);
+
+    expect(first.process.kill).toHaveBeenCalled();
+    expect(client.getServerStatus()).toEqual([]);
+
+    const second = await (client as any).getServer(TS_FILE);
+
+    expect(second).not.toBe(first);
+    expect(startServerSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should keep servers running while they receive requests', async () => {
+    createClient({ servers: [{ ...typescript, idleTimeout: IDLE_TIMEOUT }] });
+
+    const serverState = await (client as any).getServer(TS_FILE);
+    for (let i = 0; i < 4; i++) {
+      await wait(30);
+      await (client as any).getServer(TS_FILE);
+    }
+    const request = (client as any)
+      .sendRequest(serverState.process, 'workspace/symbol', { query: '' }, 1000)
+      .catch(() => undefined);
+    await wait(150);
+
+    expect(serverState.process.kill).not.toHaveBeenCalled();
+    expect(client.getServerStatus()).toMatchObject([
+      { status: 'running', idleTimeoutMs: IDLE_TIMEOUT * 60000 },
+    ]);
+    (client as any).getConnection(serverState.process).handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      result: [],
+    });
+    await request;
+  });
+
+  it('should apply the global idleTimeout unless a server overrides it', async () => {
+    createClient({ idleTimeout: IDLE_TIMEOUT, servers: [typescript, { ...go, idleTimeout: 0 }] });
+
+    const typescriptState = await (client as any).getServer(TS_FILE);
+    const goState = await (client as any).getServer(GO_FILE);
+    await wait(150);
+
+    expect(typescriptState.process.kill).toHaveBeenCalled();
+    expect(goState.process.kill).not.toHaveBeenCalled();
+    expect(client.getServerStatus()).toMatchObject([{ name: 'gopls', idleTimeoutMs: undefined }]);
+  });
+});
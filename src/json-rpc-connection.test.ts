@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'bun:test';
+import { JsonRpcConnection, LSPRequestError } from './json-rpc-connection.js';
+import type { LSPMessage } from './message-transport.js';
+
+// Connection whose written messages are collected in `written`
+const createConnection = () => {
+  const written: LSPMessage[] = [];
+  const connection = new JsonRpcConnection({
+    write: (data: string) => {
+      written.push(JSON.parse(data.slice(data.indexOf('\r\n\r\n') + 4)));
+      return true;
+    },
+  } as any);
+  return { connection, written };
+};
+
+const tick = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('JsonRpcConnection', () => {
+  it('should number requests per connection', () => {
+    const first = createConnection();
+    const second = createConnection();
+
+    first.connection.sendRequest('initialize', {}, { timeout: 1000 }).catch(() => {});
+    first.connection.sendRequest('shutdown', null, { timeout: 1000 }).catch(() => {});
+    second.connection.sendRequest('initialize', {}, { timeout: 1000 }).catch(() => {});
+
+    expect(first.written.map((message) => message.id)).toEqual([1, 2]);
+    expect(second.written.map((message) => message.id)).toEqual([1]);
+
+    first.connection.dispose(new Error('done'));
+    second.connection.dispose(new Error('done'));
+  });
+
+  it('should only settle requests sent on the same connection', async () => {
+    const first = createConnection();
+    const second = createConnection();
+    const request = first.connection.sendRequest('textDocument/hover', {}, { timeout: 1000 });
+
+    second.connection.handleMessage({ jsonrpc: '2.0', id: 1, result: 'wrong server' });
+    expect(first.connection.hasPendingRequests()).toBe(true);
+
+    first.connection.handleMessage({ jsonrpc: '2.0', id: 1, result: 'hover' });
+    expect(await request).toBe('hover');
+    expect(first.connection.hasPendingRequests()).toBe(false);
+  });
+
+  it('should reject error responses with an LSPRequestError', async () => {
+    const { connection } = createConnection();
+    const request = connection.sendRequest('textDocument/hover', {}, { timeout: 1000 });
+
+    connection.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: -32801, message: 'Content modified', data: { retry: true } },
+    });
+
+    const error = await request.catch((reason) => reason);
+    expect(error).toBeInstanceOf(LSPRequestError);
+    expect(error).toMatchObject({
+      code: -32801,
+      message: 'Content modified',
+      data: { retry: true },
+    });
+  });
+
+  it('should reject pending and later requests once disposed', async () => {
+    const { connection, written } = createConnection();
+    const pending = [
+      connection.sendRequest('textDocument/hover', {}, { timeout: 1000 }),
+      connection.sendRequest('textDocument/definition', {}, { timeout: 1000 }),
+    ];
+
+    connection.dispose(new Error('Language server pylsp was stopped before responding'));
+
+    for (const request of pending) {
+      await expect(request).rejects.toThrow('was stopped before responding');
+    }
+    expect(connection.hasPendingRequests()).toBe(false);
+    await expect(connection.sendRequest('shutdown', null, { timeout: 1000 })).rejects.toThrow(
+      'was stopped before responding'
+    );
+    expect(written).toHaveLength(2);
+  });
+
+  it('should not treat server requests as responses to our own requests', async () => {
+    const { connection, written } = createConnection();
+    const request = connection.sendRequest('textDocument/hover', {}, { timeout: 1000 });
+    connection.onRequest('workspace/configuration', () => [null]);
+
+    connection.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'workspace/configuration',
+      params: { items: [{}] },
+    });
+    await tick();
+
+    expect(connection.hasPendingRequests()).toBe(true);
+    expect(written[1]).toEqual({ jsonrpc: '2.0', id: 1, result: [null] });
+
+    connection.handleMessage({ jsonrpc: '2.0', id: 1, result: null });
+    await request;
+  });
+
+  it('should answer requests without a handler or with a failing one with errors', async () => {
+    const { connection, written } = createConnection();
+    connection.onRequest('workspace/applyEdit', () => {
+      throw new Error('boom');
+    });
+
+    connection.handleMessage({ jsonrpc: '2.0', id: 7, method: 'custom/unknown' });
+    connection.handleMessage({ jsonrpc: '2.0', id: 8, method: 'workspace/applyEdit' });
+    await tick();
+
+    expect(written).toEqual([
+      {
+        jsonrpc: '2.0',
+        id: 7,
+        error: { code: -32601, message: 'Unhandled method custom/unknown' },
+      },
+      { jsonrpc: '2.0', id: 8, error: { code: -32603, message: 'boom' } },
+    ]);
+  });
+
+  it('should dispatch notifications to their handler', () => {
+    const { connection } = createConnection();
+    const received: unknown[] = [];
+    connection.onNotification('$/progress', (params) => received.push(params));
+
+    connection.handleMessage({ jsonrpc: '2.0', method: '$/progress', params: { token: 't' } });
+    connection.handleMessage({ jsonrpc: '2.0', method: 'window/logMessage', params: {} });
+
+    expect(received).toEqual([{ token: 't' }]);
+  });
+
+  it('should send $/cancelRequest when a request times out', async () => {
+    const { connection, written } = createConnection();
+
+    await expect(connection.sendRequest('workspace/symbol', {}, { timeout: 10 })).rejects.toThrow(
+      'LSP request timeout: workspace/symbol (10ms)'
+    );
+    expect(written[1]).toEqual({ jsonrpc: '2.0', method: '$/cancelRequest', params: { id: 1 } });
+    expect(connection.hasPendingRequests()).toBe(false);
+  });
+});
@@ -0,0 +1,214 @@
+import type { Readable, Writable } from 'node:stream';
+import { type LSPMessage, MessageTransport } from './message-transport.js';
+import type { LSPError } from './types.js';
+
+// JSON-RPC error codes for requests without a handler, and handlers that failed
+export const METHOD_NOT_FOUND = -32601;
+export const INTERNAL_ERROR = -32603;
+
+/**
+ * Error response of a language server to one of our requests
+ */
+export class LSPRequestError extends Error {
+  constructor(
+    readonly code: number,
+    message: string,
+    readonly data?: unknown
+  ) {
+    super(message);
+    this.name = 'LSPRequestError';
+  }
+}
+
+export interface RequestOptions {
+  timeout: number; // Milliseconds until the request is cancelled
+  signal?: AbortSignal; // Cancels the request when aborted
+}
+
+type RequestHandler = (params: unknown) => unknown;
+type NotificationHandler = (params: unknown) => void;
+
+interface PendingRequest {
+  resolve: (value: unknown) => void;
+  reject: (reason: Error) => void;
+}
+
+/**
+ * JSON-RPC connection to one language server process. Request ids and pending requests
+ * belong to the connection, so a response can only settle a request sent on the same
+ * connection, and disposing it settles everything still waiting for the server.
+ */
+export class JsonRpcConnection {
+  private transport: MessageTransport;
+  private nextId = 1;
+  private pendingRequests: Map<number, PendingRequest> = new Map();
+  private requestHandlers: Map<string, RequestHandler> = new Map();
+  private notificationHandlers: Map<string, NotificationHandler> = new Map();
+  private disposedError?: Error;
+
+  constructor(output: Writable | null | undefined) {
+    this.transport = new MessageTransport(output);
+  }
+
+  /**
+   * Read messages from the server's output. Malformed messages are reported to `onError`.
+   */
+  listen(input: Readable | null | undefined, onError: (error: Error) => void): void {
+    this.transport.listen(input, (message) => this.handleMessage(message), onError);
+  }
+
+  /**
+   * Handle requests the server sends for `method`. The handler's result, or the error it
+   * throws, is sent back as the response. Requests without a handler are answered with
+   * a MethodNotFound error so the server does not stall.
+   */
+  onRequest(method: string, handler: RequestHandler): void {
+    this.requestHandlers.set(method, handler);
+  }
+
+  onNotification(method: string, handler: NotificationHandler): void {
+    this.notificationHandlers.set(method, handler);
+  }
+
+  /**
+   * Send a request. It is rejected with an LSPRequestError when the server answers with an
+   * error, and cancelled with `$/cancelRequest` when it times out or `signal` is aborted.
+   */
+  sendRequest(method: string, params: unknown, options: RequestOptions): Promise<unknown> {
+    const { timeout, signal } = options;
+    if (this.disposedError) {
+      return Promise.reject(this.disposedError);
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new Error(`LSP request cancelled: ${method}`));
+    }
+
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      // Stop waiting for the response and tell the server to stop working on it
+      const cancel = (error: Error) => {
+        if (!this.pendingRequests.has(id)) return;
+        this.pendingRequests.delete(id);
+        cleanup();
+        this.sendNotification('$/cancelRequest', { id });
+        reject(error);
+      };
+      const onAbort = () => cancel(new Error(`LSP request cancelled: ${method}`));
+      const timeoutId = setTimeout(
+        () => cancel(new Error(`LSP request timeout: ${method} (${timeout}ms)`)),
+        timeout
+      );
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        signal?.removeEventListener('abort', onAbort);
+      };
+      signal?.addEventListener('abort', onAbort);
+
+      this.pendingRequests.set(id, {
+        resolve: (value) => {
+          cleanup();
+          resolve(value);
+        },
+        reject: (reason) => {
+          cleanup();
+          reject(reason);
+        },
+      });
+
+      this.transport.write({ jsonrpc: '2.0', id, method, params });
+    });
+  }
+
+  sendNotification(method: string, params: unknown): void {
+    if (this.disposedError) {
+      return;
+    }
+    this.transport.write({ jsonrpc: '2.0', method, params });
+  }
+
+  hasPendingRequests(): boolean {
+    return this.pendingRequests.size > 0;
+  }
+
+  /**
+   * Dispatch a message from the server: requests to their request handler, responses to
+   * the pending request with their id, and notifications to their notification handler
+   */
+  handleMessage(message: LSPMessage): void {
+    if (this.disposedError) {
+      return;
+    }
+
+    // Requests from the server carry both an id and a method, and their ids are
+    // independent from ours, so they must not be matched against pending requests
+    if (message.method && message.id !== undefined) {
+      this.handleRequest(message.id, message.method, message.params);
+      return;
+    }
+
+    if (message.id !== undefined) {
+      const request = typeof message.id === 'number' && this.pendingRequests.get(message.id);
+      if (!request) {
+        return;
+      }
+      this.pendingRequests.delete(message.id as number);
+      if (message.error) {
+        const { code, message: errorMessage, data } = message.error;
+        request.reject(new LSPRequestError(code, errorMessage || 'LSP Error', data));
+      } else {
+        request.resolve(message.result);
+      }
+      return;
+    }
+
+    if (message.method) {
+      this.notificationHandlers.get(message.method)?.(message.params);
+    }
+  }
+
+  /**
+   * Reject every pending request with `error` and ignore the server from now on. New
+   * requests are rejected with the same error.
+   */
+  dispose(error: Error): void {
+    if (this.disposedError) {
+      return;
+    }
+    this.disposedError = error;
+    const pending = [...this.pendingRequests.values()];
+    this.pendingRequests.clear();
+    for (const request of pending) {
+      request.reject(error);
+    }
+    this.requestHandlers.clear();
+    this.notificationHandlers.clear();
+  }
+
+  private async handleRequest(id: number | string, method: string, params: unknown) {
+    const handler = this.requestHandlers.get(method);
+    if (!handler) {
+      this.sendError(id, { code: METHOD_NOT_FOUND, message: `Unhandled method ${method}` });
+      return;
+    }
+
+    try {
+      const result = await handler(params);
+      this.send({ jsonrpc: '2.0', id, result: result ?? null });
+    } catch (error) {
+      this.sendError(id, {
+        code: INTERNAL_ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  private sendError(id: number | string, error: LSPError): void {
+    this.send({ jsonrpc: '2.0', id, error });
+  }
+
+  private send(message: LSPMessage): void {
+    if (!this.disposedError) {
+      this.transport.write(message);
+    }
+  }
+}
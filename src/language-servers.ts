@@ -7,7 +7,8 @@ export interface LanguageServerConfig {
   rootDir?: string;
   description?: string;
   installRequired?: boolean;
-  restartInterval?: number; // Default restart interval in minutes
+  maxMemory?: number; // Default memory limit in megabytes before the server is restarted
+  initializationOptions?: unknown; // Default initializationOptions for the generated config
 }
 
 export const LANGUAGE_SERVERS: LanguageServerConfig[] = [
@@ -28,7 +29,26 @@ export const LANGUAGE_SERVERS: LanguageServerConfig[] = [
     installInstructions: 'pip install python-lsp-server',
     description: 'Python Language Server Protocol implementation',
     installRequired: false,
-    restartInterval: 5, // Auto-restart every 5 minutes to prevent performance degradation
+    maxMemory: 1024, // pylsp slows down as its memory grows over long sessions
+    initializationOptions: {
+      settings: {
+        pylsp: {
+          plugins: {
+            jedi_completion: { enabled: true },
+            jedi_definition: { enabled: true },
+            jedi_hover: { enabled: true },
+            jedi_references: { enabled: true },
+            jedi_signature_help: { enabled: true },
+            jedi_symbols: { enabled: true },
+            pylint: { enabled: false },
+            pycodestyle: { enabled: false },
+            pyflakes: { enabled: false },
+            yapf: { enabled: false },
+            rope_completion: { enabled: false },
+          },
+        },
+      },
+    },
   },
   {
     name: 'go',
@@ -178,16 +198,21 @@ export function generateConfig(selectedLanguages: string[]): object {
         extensions: string[];
         command: string[];
         rootDir: string;
-        restartInterval?: number;
+        maxMemory?: number;
+        initializationOptions?: unknown;
       } = {
         extensions: server.extensions,
         command: server.command,
         rootDir: server.rootDir || '.',
       };
 
-      // Add restartInterval if specified for the server
-      if (server.restartInterval) {
-        config.restartInterval = server.restartInterval;
+      // Add maxMemory if specified for the server
+      if (server.maxMemory) {
+        config.maxMemory = server.maxMemory;
+      }
+
+      if (server.initializationOptions) {
+        config.initializationOptions = server.initializationOptions;
       }
 
       return config;
@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, jest, spyOn } from 'bun:test';
-import { existsSync, mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
 import { mkdir, rm, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
 import { LSPClient } from './lsp-client.js';
@@ -7,7 +7,7 @@ import { pathToUri } from './utils.js';
 
 // Type for accessing private methods in tests
 type LSPClientInternal = {
-  startServer: (config: unknown) => Promise<unknown>;
+  startServer: (config: unknown, rootDir?: string) => Promise<unknown>;
   getServer: (filePath: string) => Promise<{ initializationPromise: Promise<void> }>;
   ensureFileOpen: (filePath: string) => Promise<void>;
   sendRequest: (method: string, params: unknown) => Promise<unknown>;
@@ -16,6 +16,8 @@ type LSPClientInternal = {
 const TEST_DIR = process.env.RUNNER_TEMP
   ? `${process.env.RUNNER_TEMP}/cclsp-test`
   : '/tmp/cclsp-test';
+// Keeps the user and project configs of the machine running the tests out
+const CONFIG_OPTIONS = { cwd: TEST_DIR, homeDir: TEST_DIR };
 
 const TEST_CONFIG_PATH = join(TEST_DIR, 'test-config.json');
 
@@ -63,48 +65,25 @@ describe('LSPClient', () => {
     }
   });
 
-  it('should fail to create LSPClient when config file does not exist', () => {
-    const stderrSpy = spyOn(process.stderr, 'write');
-    const exitSpy = spyOn(process, 'exit').mockImplementation(() => {
-      throw new Error('process.exit called');
-    });
-
+  it('should throw when the config file does not exist', () => {
     expect(() => {
-      new LSPClient('/nonexistent/config.json');
-    }).toThrow('process.exit called');
-
-    expect(exitSpy).toHaveBeenCalledWith(1);
-    expect(stderrSpy).toHaveBeenCalledWith(
-      expect.stringContaining('Failed to load config from /nonexistent/config.json')
-    );
-
-    stderrSpy.mockRestore();
-    exitSpy.mockRestore();
+      new LSPClient('/nonexistent/config.json', CONFIG_OPTIONS);
+    }).toThrow('Failed to load config from /nonexistent/config.json');
   });
 
-  it('should fail to create LSPClient when no configPath provided', () => {
-    const stderrSpy = spyOn(process.stderr, 'write');
-    const exitSpy = spyOn(process, 'exit').mockImplementation(() => {
-      throw new Error('process.exit called');
-    });
-
-    expect(() => {
-      new LSPClient();
-    }).toThrow('process.exit called');
-
-    expect(exitSpy).toHaveBeenCalledWith(1);
-    expect(stderrSpy).toHaveBeenCalledWith(
-      expect.stringContaining(
-        'configPath is required when CCLSP_CONFIG_PATH environment variable is not set'
-      )
+  it('should throw with the offending field when the config is invalid', () => {
+    writeFileSync(
+      TEST_CONFIG_PATH,
+      JSON.stringify({ servers: [{ extensions: ['ts'], command: 'typescript-language-server' }] })
     );
 
-    stderrSpy.mockRestore();
-    exitSpy.mockRestore();
+    expect(() => {
+      new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+    }).toThrow('servers[0].command: expected array, got string');
   });
 
   it('should create LSPClient with valid config file', () => {
-    const client = new LSPClient(TEST_CONFIG_PATH);
+    const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
     expect(client).toBeDefined();
   });
 
@@ -115,7 +94,7 @@ describe('LSPClient', () => {
       await writeFile(join(TEST_DIR, 'test.js'), 'console.log("test");');
       await writeFile(join(TEST_DIR, 'test.py'), 'print("test")');
 
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       // Mock process.stderr.write to capture output
       const stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
@@ -153,7 +132,7 @@ describe('LSPClient', () => {
       // Create test file without .gitignore
       await writeFile(join(TEST_DIR, 'test.ts'), 'console.log("test");');
 
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       // Mock file scanning functions
       const fileScanner = await import('./file-scanner.js');
@@ -185,7 +164,7 @@ describe('LSPClient', () => {
     it.skip('should handle preloading errors gracefully', async () => {
       await writeFile(join(TEST_DIR, 'test.ts'), 'console.log("test");');
 
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       const stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
 
@@ -208,7 +187,7 @@ describe('LSPClient', () => {
 
   describe('initialization promise behavior', () => {
     it.skip('should wait for initialization on first call and pass through on subsequent calls', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       let initResolve: (() => void) | undefined;
       const initPromise = new Promise<void>((resolve) => {
@@ -267,7 +246,7 @@ describe('LSPClient', () => {
     });
 
     it('should handle multiple concurrent calls waiting for initialization', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       let initResolve: (() => void) | undefined;
       const initPromise = new Promise<void>((resolve) => {
@@ -327,7 +306,7 @@ describe('LSPClient', () => {
 
   describe('Symbol kind fallback functionality', () => {
     it('should return fallback results when specified symbol kind not found', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       // Mock getDocumentSymbols to return test symbols
       const mockSymbols = [
@@ -364,7 +343,7 @@ describe('LSPClient', () => {
     });
 
     it('should return multiple fallback results of different kinds', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       // Mock getDocumentSymbols to return symbols with same name but different kinds
       const mockSymbols = [
@@ -405,7 +384,7 @@ describe('LSPClient', () => {
     });
 
     it('should not trigger fallback when correct symbol kind is found', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       const mockSymbols = [
         {
@@ -437,7 +416,7 @@ describe('LSPClient', () => {
     });
 
     it('should return empty results when no symbols found even with fallback', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       const mockSymbols = [
         {
@@ -464,7 +443,7 @@ describe('LSPClient', () => {
 
   describe('Server restart functionality', () => {
     it('should setup restart timer when restartInterval is configured', () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       // Mock setTimeout to verify timer is set
       const setTimeoutSpy = spyOn(global, 'setTimeout').mockImplementation((() => 123) as any);
@@ -496,7 +475,7 @@ describe('LSPClient', () => {
     });
 
     it('should not setup restart timer when restartInterval is not configured', () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       // Mock setTimeout to verify timer is NOT set
       const setTimeoutSpy = spyOn(global, 'setTimeout').mockImplementation((() => 123) as any);
@@ -528,11 +507,12 @@ describe('LSPClient', () => {
     });
 
     it('should clear restart timer when disposing client', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       const mockTimer = setTimeout(() => {}, 1000);
       const mockServerState = {
         process: { kill: jest.fn() },
+        config: { extensions: ['ts'], command: ['typescript-language-server', '--stdio'] },
         restartTimer: mockTimer,
       };
 
@@ -554,7 +534,7 @@ describe('LSPClient', () => {
 
   describe('restartServers', () => {
     it('should handle restart request for non-existent extensions', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
       const result = await client.restartServers(['xyz']);
 
       expect(result.success).toBe(false);
@@ -564,7 +544,7 @@ describe('LSPClient', () => {
     });
 
     it('should handle restart request when no servers are running', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
       const result = await client.restartServers();
 
       expect(result.success).toBe(false);
@@ -574,7 +554,7 @@ describe('LSPClient', () => {
     });
 
     it('should restart servers for specific extensions', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       // Mock servers map with running servers
       const mockServerState = {
@@ -583,6 +563,7 @@ describe('LSPClient', () => {
           extensions: ['ts', 'tsx'],
           command: ['typescript-language-server', '--stdio'],
         },
+        rootDir: '/project/packages/web',
         restartTimer: undefined,
       };
 
@@ -610,13 +591,13 @@ describe('LSPClient', () => {
       expect(result.restarted[0]).toContain('typescript-language-server');
       expect(result.failed).toHaveLength(0);
       expect(mockServerState.process.kill).toHaveBeenCalled();
-      expect(startServerSpy).toHaveBeenCalledWith(mockServerState.config);
+      expect(startServerSpy).toHaveBeenCalledWith(mockServerState.config, '/project/packages/web');
 
       startServerSpy.mockRestore();
     });
 
     it('should restart all servers when no extensions specified', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       // Mock multiple servers
       const mockServer1 = {
@@ -668,7 +649,7 @@ describe('LSPClient', () => {
     });
 
     it('should handle partial restart failures', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       const mockServer1 = {
         process: { kill: jest.fn() },
@@ -723,7 +704,7 @@ describe('LSPClient', () => {
     });
 
     it('should clear restart timer before restarting', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       const mockTimer = setTimeout(() => {}, 1000);
       const mockServerState = {
@@ -763,7 +744,7 @@ describe('LSPClient', () => {
 
   describe('getDiagnostics', () => {
     it('should return diagnostics when server supports textDocument/diagnostic', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       const mockDiagnostics = [
         {
@@ -831,7 +812,7 @@ describe('LSPClient', () => {
     });
 
     it('should return empty array for unchanged report', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       const mockServerState = {
         initializationPromise: Promise.resolve(),
@@ -871,7 +852,7 @@ describe('LSPClient', () => {
     });
 
     it('should return cached diagnostics from publishDiagnostics', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       const mockDiagnostics = [
         {
@@ -915,7 +896,7 @@ describe('LSPClient', () => {
     });
 
     it('should handle server not supporting textDocument/diagnostic', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       const mockServerState = {
         initializationPromise: Promise.resolve(),
@@ -958,7 +939,7 @@ describe('LSPClient', () => {
     });
 
     it('should handle unexpected response format', async () => {
-      const client = new LSPClient(TEST_CONFIG_PATH);
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
 
       const mockServerState = {
         initializationPromise: Promise.resolve(),
@@ -994,4 +975,517 @@ describe('LSPClient', () => {
       sendRequestSpy.mockRestore();
     });
   });
+  describe('document sync', () => {
+    const createSyncServerState = (capabilities?: unknown) => ({
+      initializationPromise: Promise.resolve(),
+      process: { stdin: { write: jest.fn() } },
+      initialized: true,
+      openFiles: new Set<string>(),
+      documents: new Map(),
+      diagnostics: new Map(),
+      lastDiagnosticUpdate: new Map(),
+      diagnosticVersions: new Map(),
+      capabilities,
+      positionEncoding: 'utf-16',
+    });
+
+    it('should send didOpen once and track the document version', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const filePath = join(TEST_DIR, 'sync-open.ts');
+      writeFileSync(filePath, 'const a = 1;\n');
+
+      const serverState = createSyncServerState();
+      const notificationSpy = spyOn(client as any, 'sendNotification').mockResolvedValue(undefined);
+
+      await (client as any).ensureFileOpen(serverState, filePath);
+      await (client as any).ensureFileOpen(serverState, filePath);
+
+      expect(notificationSpy).toHaveBeenCalledTimes(1);
+      expect(notificationSpy.mock.calls[0]?.[1]).toBe('textDocument/didOpen');
+      expect(serverState.documents.get(filePath)?.version).toBe(1);
+
+      notificationSpy.mockRestore();
+    });
+
+    it('should send a full didChange when the file changed on disk', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const filePath = join(TEST_DIR, 'sync-full.ts');
+      writeFileSync(filePath, 'const a = 1;\n');
+
+      const serverState = createSyncServerState({ textDocumentSync: 1 });
+      const notificationSpy = spyOn(client as any, 'sendNotification').mockResolvedValue(undefined);
+
+      await (client as any).ensureFileOpen(serverState, filePath);
+      writeFileSync(filePath, 'const a = 2; // changed\n');
+      (client as any).servers = new Map([['test-key', serverState]]);
+      await client.syncOpenDocuments([filePath]);
+
+      const changeCall = notificationSpy.mock.calls.find(
+        (call: unknown[]) => call[1] === 'textDocument/didChange'
+      );
+      expect(changeCall?.[2]).toEqual({
+        textDocument: { uri: pathToUri(filePath), version: 2 },
+        contentChanges: [{ text: 'const a = 2; // changed\n' }],
+      });
+      expect(serverState.documents.get(filePath)?.version).toBe(2);
+
+      notificationSpy.mockRestore();
+    });
+
+    it('should send incremental changes and didSave when advertised', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const filePath = join(TEST_DIR, 'sync-incremental.ts');
+      writeFileSync(filePath, 'const foo = 1;\n');
+
+      const serverState = createSyncServerState({
+        textDocumentSync: { openClose: true, change: 2, save: { includeText: false } },
+      });
+      const notificationSpy = spyOn(client as any, 'sendNotification').mockResolvedValue(undefined);
+
+      await (client as any).ensureFileOpen(serverState, filePath);
+      writeFileSync(filePath, 'const bar = 1;\n');
+      await (client as any).syncDocument(serverState, filePath, true);
+
+      const methods = notificationSpy.mock.calls.map((call: unknown[]) => call[1]);
+      expect(methods).toEqual([
+        'textDocument/didOpen',
+        'textDocument/didChange',
+        'textDocument/didSave',
+      ]);
+      expect(notificationSpy.mock.calls[1]?.[2]).toEqual({
+        textDocument: { uri: pathToUri(filePath), version: 2 },
+        contentChanges: [
+          {
+            range: { start: { line: 0, character: 6 }, end: { line: 0, character: 9 } },
+            text: 'bar',
+          },
+        ],
+      });
+
+      notificationSpy.mockRestore();
+    });
+
+    it('should close documents whose file was deleted', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const filePath = join(TEST_DIR, 'sync-deleted.ts');
+      writeFileSync(filePath, 'const a = 1;\n');
+
+      const serverState = createSyncServerState();
+      const notificationSpy = spyOn(client as any, 'sendNotification').mockResolvedValue(undefined);
+
+      await (client as any).ensureFileOpen(serverState, filePath);
+      rmSync(filePath);
+      await (client as any).syncDocument(serverState, filePath);
+
+      expect(notificationSpy.mock.calls[1]?.[1]).toBe('textDocument/didClose');
+      expect(serverState.openFiles.has(filePath)).toBe(false);
+      expect(serverState.documents.has(filePath)).toBe(false);
+
+      notificationSpy.mockRestore();
+    });
+  });
+  describe('rename edits', () => {
+    it('should return documentChanges workspace edits from the server', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const workspaceEdit = {
+        documentChanges: [
+          {
+            textDocument: { uri: pathToUri('/test.ts'), version: 1 },
+            edits: [
+              {
+                range: { start: { line: 0, character: 6 }, end: { line: 0, character: 9 } },
+                newText: 'bar',
+              },
+            ],
+          },
+        ],
+      };
+
+      const getServerSpy = spyOn(
+        client as unknown as LSPClientInternal,
+        'getServer'
+      ).mockResolvedValue({ initializationPromise: Promise.resolve() } as any);
+      const ensureFileOpenSpy = spyOn(
+        client as unknown as LSPClientInternal,
+        'ensureFileOpen'
+      ).mockResolvedValue(undefined);
+      const sendRequestSpy = spyOn(
+        client as unknown as LSPClientInternal,
+        'sendRequest'
+      ).mockResolvedValue(workspaceEdit);
+
+      const result = await client.renameSymbol('/test.ts', { line: 0, character: 6 }, 'bar');
+
+      expect(result).toEqual(workspaceEdit);
+
+      getServerSpy.mockRestore();
+      ensureFileOpenSpy.mockRestore();
+      sendRequestSpy.mockRestore();
+    });
+
+    it('should apply documentChanges edits to disk in preference to changes', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const filePath = join(TEST_DIR, 'rename-target.ts');
+      writeFileSync(filePath, 'const foo = 1;\nconsole.log(foo);\n');
+      const uri = pathToUri(filePath);
+
+      const syncSpy = spyOn(client, 'syncOpenDocuments').mockResolvedValue(undefined);
+
+      await client.applyWorkspaceEdit({
+        changes: {
+          [uri]: [
+            {
+              range: { start: { line: 0, character: 6 }, end: { line: 0, character: 9 } },
+              newText: 'ignored',
+            },
+          ],
+        },
+        documentChanges: [
+          {
+            textDocument: { uri, version: 1 },
+            edits: [
+              {
+                range: { start: { line: 0, character: 6 }, end: { line: 0, character: 9 } },
+                newText: 'bar',
+              },
+              {
+                range: { start: { line: 1, character: 12 }, end: { line: 1, character: 15 } },
+                newText: 'bar',
+              },
+            ],
+          },
+        ],
+      });
+
+      expect(readFileSync(filePath, 'utf-8')).toBe('const bar = 1;\nconsole.log(bar);\n');
+      expect(syncSpy).toHaveBeenCalledWith([filePath]);
+
+      syncSpy.mockRestore();
+    });
+  });
+
+  describe('findImplementations', () => {
+    it('should normalize Location and LocationLink results', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const range = { start: { line: 4, character: 0 }, end: { line: 8, character: 1 } };
+      const selectionRange = { start: { line: 4, character: 6 }, end: { line: 4, character: 12 } };
+
+      spyOn(client as unknown as LSPClientInternal, 'getServer').mockResolvedValue({
+        initializationPromise: Promise.resolve(),
+      } as any);
+      spyOn(client as unknown as LSPClientInternal, 'ensureFileOpen').mockResolvedValue(undefined);
+      const sendRequestSpy = spyOn(
+        client as unknown as LSPClientInternal,
+        'sendRequest'
+      ).mockResolvedValue([
+        { uri: pathToUri('/circle.ts'), range },
+        {
+          targetUri: pathToUri('/square.ts'),
+          targetRange: range,
+          targetSelectionRange: selectionRange,
+        },
+      ]);
+
+      const locations = await client.findImplementations('/shape.ts', { line: 0, character: 10 });
+
+      expect(sendRequestSpy.mock.calls[0]?.[1]).toBe('textDocument/implementation');
+      expect(locations).toEqual([
+        { uri: pathToUri('/circle.ts'), range },
+        { uri: pathToUri('/square.ts'), range: selectionRange },
+      ]);
+    });
+
+    it('should accept a single location or no result', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const location = {
+        uri: pathToUri('/circle.ts'),
+        range: { start: { line: 1, character: 0 }, end: { line: 1, character: 5 } },
+      };
+
+      spyOn(client as unknown as LSPClientInternal, 'getServer').mockResolvedValue({
+        initializationPromise: Promise.resolve(),
+      } as any);
+      spyOn(client as unknown as LSPClientInternal, 'ensureFileOpen').mockResolvedValue(undefined);
+      const sendRequestSpy = spyOn(
+        client as unknown as LSPClientInternal,
+        'sendRequest'
+      ).mockResolvedValueOnce(location);
+      sendRequestSpy.mockResolvedValueOnce(null);
+
+      expect(await client.findImplementations('/shape.ts', { line: 0, character: 10 })).toEqual([
+        location,
+      ]);
+      expect(await client.findImplementations('/shape.ts', { line: 0, character: 10 })).toEqual([]);
+    });
+  });
+
+  describe('findTypeDefinition', () => {
+    it('should fall back to nearby positions when the exact one has no type definition', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const typeRange = { start: { line: 2, character: 10 }, end: { line: 2, character: 14 } };
+
+      spyOn(client as unknown as LSPClientInternal, 'getServer').mockResolvedValue({
+        initializationPromise: Promise.resolve(),
+      } as any);
+      spyOn(client as unknown as LSPClientInternal, 'ensureFileOpen').mockResolvedValue(undefined);
+      const sendRequestSpy = spyOn(client as any, 'sendRequest').mockImplementation(
+        async (_process: unknown, _method: string, params: any) =>
+          params.position.character === 4
+            ? [
+                {
+                  targetUri: pathToUri('/user.ts'),
+                  targetRange: typeRange,
+                  targetSelectionRange: typeRange,
+                },
+              ]
+            : null
+      );
+
+      const locations = await client.findTypeDefinition('/main.ts', { line: 7, character: 5 });
+
+      expect(locations).toEqual([{ uri: pathToUri('/user.ts'), range: typeRange }]);
+      expect(sendRequestSpy.mock.calls.map((call: unknown[]) => (call[2] as any).position)).toEqual(
+        [
+          { line: 7, character: 5 },
+          { line: 7, character: 4 },
+        ]
+      );
+    });
+
+    it('should return no locations when no position resolves', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+
+      spyOn(client as unknown as LSPClientInternal, 'getServer').mockResolvedValue({
+        initializationPromise: Promise.resolve(),
+      } as any);
+      spyOn(client as unknown as LSPClientInternal, 'ensureFileOpen').mockResolvedValue(undefined);
+      const sendRequestSpy = spyOn(
+        client as unknown as LSPClientInternal,
+        'sendRequest'
+      ).mockResolvedValue([]);
+
+      expect(await client.findTypeDefinition('/main.ts', { line: 3, character: 3 })).toEqual([]);
+      expect(sendRequestSpy).toHaveBeenCalledTimes(4);
+    });
+
+    it('should only query the exact position of a resolved symbol', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+
+      spyOn(client as unknown as LSPClientInternal, 'getServer').mockResolvedValue({
+        initializationPromise: Promise.resolve(),
+      } as any);
+      spyOn(client as unknown as LSPClientInternal, 'ensureFileOpen').mockResolvedValue(undefined);
+      const sendRequestSpy = spyOn(
+        client as unknown as LSPClientInternal,
+        'sendRequest'
+      ).mockResolvedValue(null);
+
+      expect(await client.getTypeDefinition('/main.ts', { line: 3, character: 3 })).toEqual([]);
+      expect(sendRequestSpy).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('server requests', () => {
+    const createRequestServerState = (settings?: Record<string, unknown>) => ({
+      process: { stdin: { write: jest.fn() } },
+      config: {
+        extensions: ['ts'],
+        command: ['typescript-language-server', '--stdio'],
+        rootDir: TEST_DIR,
+        settings,
+      },
+    });
+
+    // Dispatch requests from the server and collect the responses written back to it
+    const answer = async (client: LSPClient, serverState: any, requests: unknown[]) => {
+      (client as any).registerServerHandlers(serverState);
+      const connection = (client as any).getConnection(serverState.process);
+      for (const request of requests) {
+        connection.handleMessage(request);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      return serverState.process.stdin.write.mock.calls.map(([data]: [string]) =>
+        JSON.parse(data.slice(data.indexOf('\r\n\r\n') + 4))
+      );
+    };
+
+    it('should answer workspace/configuration from the server settings', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const serverState = createRequestServerState({
+        python: { analysis: { typeCheckingMode: 'strict' } },
+      });
+
+      const responses = await answer(client, serverState, [
+        {
+          jsonrpc: '2.0',
+          id: 'config-1',
+          method: 'workspace/configuration',
+          params: {
+            items: [{ section: 'python.analysis' }, { section: 'missing.section' }, {}],
+          },
+        },
+      ]);
+
+      expect(responses).toEqual([
+        {
+          jsonrpc: '2.0',
+          id: 'config-1',
+          result: [
+            { typeCheckingMode: 'strict' },
+            null,
+            { python: { analysis: { typeCheckingMode: 'strict' } } },
+          ],
+        },
+      ]);
+    });
+
+    it('should route workspace/applyEdit into applyWorkspaceEdit', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const serverState = createRequestServerState();
+      const applySpy = spyOn(client, 'applyWorkspaceEdit')
+        .mockResolvedValueOnce({ content: 'Modified', touchedFiles: [] })
+        .mockRejectedValueOnce(new Error('Workspace edit was not applied: boom'));
+      const edit = { changes: {} };
+
+      const responses = await answer(client, serverState, [
+        { jsonrpc: '2.0', id: 1, method: 'workspace/applyEdit', params: { label: 'Fix', edit } },
+        { jsonrpc: '2.0', id: 2, method: 'workspace/applyEdit', params: { edit } },
+      ]);
+
+      expect(applySpy).toHaveBeenCalledWith(edit, 'Fix');
+      expect(responses).toEqual([
+        { jsonrpc: '2.0', id: 1, result: { applied: true } },
+        {
+          jsonrpc: '2.0',
+          id: 2,
+          result: { applied: false, failureReason: 'Workspace edit was not applied: boom' },
+        },
+      ]);
+
+      applySpy.mockRestore();
+    });
+
+    it('should acknowledge capability registration and progress creation', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const serverState = createRequestServerState();
+
+      const responses = await answer(client, serverState, [
+        {
+          jsonrpc: '2.0',
+          id: 3,
+          method: 'client/registerCapability',
+          params: { registrations: [] },
+        },
+        { jsonrpc: '2.0', id: 4, method: 'window/workDoneProgress/create', params: { token: 't' } },
+      ]);
+
+      expect(responses).toEqual([
+        { jsonrpc: '2.0', id: 3, result: null },
+        { jsonrpc: '2.0', id: 4, result: null },
+      ]);
+    });
+
+    it('should answer unknown requests with MethodNotFound', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const serverState = createRequestServerState();
+
+      const responses = await answer(client, serverState, [
+        { jsonrpc: '2.0', id: 5, method: 'custom/unknown', params: {} },
+      ]);
+
+      expect(responses).toEqual([
+        {
+          jsonrpc: '2.0',
+          id: 5,
+          error: { code: -32601, message: 'Unhandled method custom/unknown' },
+        },
+      ]);
+    });
+  });
+
+  describe('server process configuration', () => {
+    it('should pass initializationOptions, settings, env and cwd to the server', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const outputPath = join(TEST_DIR, 'server-env.json');
+      mkdirSync(join(TEST_DIR, 'server'), { recursive: true });
+
+      // Stand-in server: records its environment, then reports itself initialized
+      const script = `
+        require('node:fs').writeFileSync(${JSON.stringify(outputPath)}, JSON.stringify({
+          cwd: process.cwd(),
+          venv: process.env.VIRTUAL_ENV,
+          path: process.env.PATH,
+        }));
+        const body = JSON.stringify({ jsonrpc: '2.0', method: 'initialized', params: {} });
+        process.stdout.write('Content-Length: ' + body.length + '\\r\\n\\r\\n' + body);
+        process.stdin.resume();
+      `;
+      const config = {
+        extensions: ['py'],
+        command: [process.execPath, '-e', script],
+        rootDir: TEST_DIR,
+        cwd: 'server',
+        env: { VIRTUAL_ENV: join(TEST_DIR, '.venv') },
+        initializationOptions: { staticcheck: true },
+        settings: { gopls: { staticcheck: true } },
+      };
+      const sendRequestSpy = spyOn(client as any, 'sendRequest').mockResolvedValue({
+        capabilities: {},
+      });
+      const sendNotificationSpy = spyOn(client as any, 'sendNotification').mockResolvedValue(
+        undefined
+      );
+
+      const serverState = (await (client as any).startServer(config)) as {
+        process: { kill: () => void };
+      };
+      serverState.process.kill();
+
+      expect((sendRequestSpy.mock.calls[0]?.[2] as any).initializationOptions).toEqual({
+        staticcheck: true,
+      });
+      expect(sendNotificationSpy).toHaveBeenCalledWith(
+        serverState.process,
+        'workspace/didChangeConfiguration',
+        { settings: { gopls: { staticcheck: true } } }
+      );
+      const recorded = JSON.parse(readFileSync(outputPath, 'utf-8'));
+      expect(recorded.cwd).toBe(join(TEST_DIR, 'server'));
+      expect(recorded.venv).toBe(join(TEST_DIR, '.venv'));
+      expect(recorded.path).toBe(process.env.PATH);
+
+      sendRequestSpy.mockRestore();
+      sendNotificationSpy.mockRestore();
+    });
+
+    it('should not send initializationOptions or settings that are not configured', async () => {
+      const client = new LSPClient(TEST_CONFIG_PATH, CONFIG_OPTIONS);
+      const script = `
+        const body = JSON.stringify({ jsonrpc: '2.0', method: 'initialized', params: {} });
+        process.stdout.write('Content-Length: ' + body.length + '\\r\\n\\r\\n' + body);
+        process.stdin.resume();
+      `;
+      const sendRequestSpy = spyOn(client as any, 'sendRequest').mockResolvedValue({
+        capabilities: {},
+      });
+      const sendNotificationSpy = spyOn(client as any, 'sendNotification').mockResolvedValue(
+        undefined
+      );
+
+      const serverState = (await (client as any).startServer({
+        extensions: ['py'],
+        command: [process.execPath, '-e', script],
+        rootDir: TEST_DIR,
+      })) as { process: { kill: () => void } };
+      serverState.process.kill();
+
+      expect((sendRequestSpy.mock.calls[0]?.[2] as any).initializationOptions).toBeUndefined();
+      expect(sendNotificationSpy.mock.calls.map((call: unknown[]) => call[1])).toEqual([
+        'initialized',
+      ]);
+
+      sendRequestSpy.mockRestore();
+      sendNotificationSpy.mockRestore();
+    });
+  });
 });
@@ -1,10 +1,37 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
 import { type ChildProcess, spawn } from 'node:child_process';
-import { existsSync, readFileSync } from 'node:fs';
+import { type FSWatcher, existsSync, readFileSync, statSync, watch } from 'node:fs';
 import { constants, access, readFile, readdir, stat } from 'node:fs/promises';
-import { join, relative } from 'node:path';
+import { basename, dirname, join, relative, resolve, sep } from 'node:path';
 import { pathToFileURL } from 'node:url';
+import {
+  type LoadConfigOptions,
+  diffServerConfigs,
+  getConfigSources,
+  loadConfig,
+} from './config.js';
+import { computeIncrementalChange, getChangeSyncKind, getSaveOptions } from './document-sync.js';
 import { loadGitignore, scanDirectoryForExtensions } from './file-scanner.js';
+import { JsonRpcConnection, LSPRequestError } from './json-rpc-connection.js';
+import {
+  type PositionEncoding,
+  SUPPORTED_POSITION_ENCODINGS,
+  convertPositions,
+  getPositionEncoding,
+} from './position-encoding.js';
+import { getProcessTreeMemory } from './process-memory.js';
+import { findNearestProjectRoot, findProjectRoots, getRootMarkers } from './project-roots.js';
+import {
+  type ServerMatch,
+  matchServer,
+  selectSecondaryServers,
+  selectServer,
+} from './server-selection.js';
 import type {
+  CallHierarchyIncomingCall,
+  CallHierarchyItem,
+  CallHierarchyNode,
+  CallHierarchyOutgoingCall,
   CodeAction,
   CodeActionContext,
   Command,
@@ -12,43 +39,128 @@ import type {
   CompletionItem,
   CompletionList,
   Config,
+  CreateFile,
+  DeleteFile,
   DeletionAnalysisResult,
   Diagnostic,
   DocumentDiagnosticReport,
   DocumentSymbol,
   FormattingOptions,
   Hover,
-  LSPError,
   LSPLocation,
   LSPServerConfig,
   Location,
+  LocationLink,
   MarkupContent,
   ParameterInfo,
   ParameterInformation,
   Position,
   Range,
+  RenameFile,
+  RequestTimeouts,
   ServerCapabilities,
   SignatureHelp,
   SignatureInformation,
   SymbolDeletionInfo,
   SymbolInformation,
   SymbolMatch,
+  TextDocumentContentChangeEvent,
+  TextDocumentEdit,
   TextEdit,
+  TypeHierarchy,
+  TypeHierarchyItem,
+  TypeHierarchyNode,
   TypeInfo,
   WorkspaceEdit,
   WorkspaceSearchResult,
 } from './types.js';
-import { CompletionItemKind, CompletionTriggerKind, SymbolKind } from './types.js';
+import {
+  CompletionItemKind,
+  CompletionTriggerKind,
+  SymbolKind,
+  TextDocumentSyncKind,
+} from './types.js';
 import { pathToUri } from './utils.js';
 import { uriToPath } from './utils.js';
+import {
+  type EditJournalEntry,
+  type FileChange,
+  WorkspaceEditTransaction,
+  applyTextEditsToContent,
+  isSameFile,
+} from './workspace-edit.js';
+
+// Requests from servers that are acknowledged without doing anything: there is no UI to
+// update, and progress arrives through $/progress
+const ACKNOWLEDGED_SERVER_REQUESTS = [
+  'client/registerCapability',
+  'client/unregisterCapability',
+  'window/workDoneProgress/create',
+  'window/showMessageRequest',
+  'workspace/codeLens/refresh',
+  'workspace/semanticTokens/refresh',
+  'workspace/inlayHint/refresh',
+  'workspace/inlineValue/refresh',
+  'workspace/diagnostic/refresh',
+];
+
+// LSP error codes for requests the server gave up on, which are worth retrying: the
+// document changed while the request was computed, or the server cancelled it itself
+const CONTENT_MODIFIED = -32801;
+const SERVER_CANCELLED = -32802;
+
+// Retries of requests failing with CONTENT_MODIFIED or SERVER_CANCELLED, after 100ms,
+// 200ms and 400ms
+const MAX_REQUEST_RETRIES = 3;
+const REQUEST_RETRY_DELAY_MS = 100;
+
+// Timeouts used unless overridden by the `timeouts` configuration: requests, waiting for
+// the server to report ready after initialize, and waiting for the workspace index
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+const DEFAULT_STARTUP_TIMEOUT_MS = 3000;
+const DEFAULT_INDEXING_TIMEOUT_MS = 15000;
+
+// Upper bound for the depth of expanded call and type trees
+const MAX_CALL_HIERARCHY_DEPTH = 10;
+
+// Number of edits kept in the session's edit journal
+const MAX_EDIT_HISTORY = 50;
+
+// Delay before reloading the configuration after a change, as editors often write twice
+const CONFIG_RELOAD_DEBOUNCE_MS = 200;
+
+// Crash recovery: restart after 1s, 2s, 4s, ... up to 30s, and give up after more than
+// MAX_CRASH_RESTARTS crashes within CRASH_LOOP_WINDOW_MS
+const CRASH_RESTART_BASE_DELAY_MS = 1000;
+const CRASH_RESTART_MAX_DELAY_MS = 30000;
+const CRASH_LOOP_WINDOW_MS = 5 * 60 * 1000;
+const MAX_CRASH_RESTARTS = 5;
+
+// Shutdown sequence: wait this long for the shutdown response, then for the process to
+// exit after the exit notification, then after SIGTERM before sending SIGKILL
+const SHUTDOWN_TIMEOUT_MS = 2000;
+const EXIT_TIMEOUT_MS = 1000;
+const SIGTERM_TIMEOUT_MS = 1000;
+
+// How often the memory of servers with a maxMemory is sampled
+const MEMORY_CHECK_INTERVAL_MS = 30000;
+
+/**
+ * Document a request is about, for positions in its params and result that don't name one
+ */
+function getRequestDocumentUri(params: unknown): string | undefined {
+  const { textDocument, item } = (params ?? {}) as {
+    textDocument?: { uri?: string };
+    item?: { uri?: string };
+  };
+  return textDocument?.uri ?? item?.uri;
+}
 
-interface LSPMessage {
-  jsonrpc: string;
-  id?: number;
-  method?: string;
-  params?: unknown;
-  result?: unknown;
-  error?: LSPError;
+interface DocumentState {
+  version: number; // Last version sent to the server
+  content: string; // Last content sent to the server
+  mtimeMs: number; // Modification time of the file when it was last synced
+  size: number; // Size of the file when it was last synced
 }
 
 interface ServerState {
@@ -56,9 +168,17 @@ interface ServerState {
   initialized: boolean;
   initializationPromise: Promise<void>;
   openFiles: Set<string>;
+  documents: Map<string, DocumentState>; // Synced document state by file path
   startTime: number;
   config: LSPServerConfig;
+  rootDir: string; // Project root the server instance was started for
   restartTimer?: NodeJS.Timeout;
+  idleTimer?: NodeJS.Timeout; // Checks whether the server has been idle for its idleTimeout
+  lastActivity: number; // Last request for the server or response from it
+  memoryTimer?: NodeJS.Timeout; // Samples the memory use of servers with a maxMemory
+  memoryBytes?: number; // Last sampled memory use of the server and its children
+  requestCount: number; // Responses received from the server
+  restartReason?: string; // Why the server is restarted once no requests are pending
   initializationResolve?: () => void;
   diagnostics: Map<string, Diagnostic[]>; // Store diagnostics by file URI
   lastDiagnosticUpdate: Map<string, number>; // Track last update time per file
@@ -67,96 +187,215 @@ interface ServerState {
   indexingStartTime: number; // When indexing started
   filesDiscovered: number; // Number of files discovered during indexing
   capabilities?: ServerCapabilities; // Store server capabilities from initialization
+  positionEncoding: PositionEncoding; // Negotiated in initialize, positions are converted from and to it
+  exited?: boolean; // Set once the process was stopped by us or has crashed
+}
+
+interface CrashRecord {
+  count: number; // Crashes of this server instance during the session
+  recent: number[]; // Crash times within CRASH_LOOP_WINDOW_MS
+  lastCrashTime?: number;
+  lastReason?: string;
+  gaveUp: boolean; // Crash-loop cap reached, no more automatic restarts
+  restart?: Promise<void>; // Pending restart after the backoff delay
+  skipBackoff?: () => void; // Ends the backoff delay of the pending restart right away
+}
+
+/**
+ * State of a server instance as reported by the status tool
+ */
+export interface ServerStatus {
+  name: string;
+  extensions: string[];
+  rootDir: string;
+  pid?: number;
+  status: 'running' | 'restarting' | 'failed';
+  uptimeMs: number;
+  idleMs: number; // Time since the last request
+  idleTimeoutMs?: number; // Stopped after being idle this long
+  memoryBytes?: number; // Last sampled memory use, for servers with a maxMemory
+  maxMemoryBytes?: number;
+  requestCount: number;
+  maxRequests?: number;
+  pendingRestart?: string; // Reason of a restart waiting for requests to finish
+  openFiles: number;
+  crashCount: number;
+  lastCrashTime?: number;
+  lastCrashReason?: string;
+}
+
+/**
+ * Outcome of reloading the configuration, with servers listed by name
+ */
+export interface ConfigReloadResult {
+  sources: string[]; // Configuration files that were loaded
+  added: string[];
+  removed: string[];
+  changed: string[]; // Running instances of these servers were restarted
+  failed: string[]; // Instances that could not be started with the new configuration
+  unchanged: number;
 }
 
 export class LSPClient {
   private config: Config;
+  private configOptions: LoadConfigOptions; // Where the layered configuration is loaded from
+  private configWatchers: FSWatcher[] = [];
+  private configReloadTimer?: ReturnType<typeof setTimeout>;
+  private configReload: Promise<unknown> = Promise.resolve(); // Serializes reloads
   private servers: Map<string, ServerState> = new Map();
-  private nextId = 1;
-  private pendingRequests: Map<
-    number,
-    { resolve: (value: unknown) => void; reject: (reason?: unknown) => void }
-  > = new Map();
-
-  constructor(configPath?: string) {
-    // First try to load from environment variable (MCP config)
-    if (process.env.CCLSP_CONFIG_PATH) {
-      process.stderr.write(
-        `Loading config from CCLSP_CONFIG_PATH: ${process.env.CCLSP_CONFIG_PATH}\n`
-      );
+  private crashes: Map<string, CrashRecord> = new Map(); // Keyed like `servers`
+  private restarts: Map<string, Promise<void>> = new Map(); // Restarts for the restart policy
+  private disposed = false;
+  private cancellation = new AsyncLocalStorage<AbortSignal>(); // Signal of the current tool call
+  private serverProcesses: Set<ChildProcess> = new Set(); // Running server processes, see killServers
+  private processConfigs: WeakMap<ChildProcess, LSPServerConfig> = new WeakMap(); // Config a server process was started with
+  private connections: WeakMap<ChildProcess, JsonRpcConnection> = new WeakMap(); // Requests and handlers of a server process
+  private editJournal: EditJournalEntry[] = [];
+  private nextEditId = 1;
+  private resultOrigins: WeakMap<object, ServerState> = new WeakMap(); // Server that returned a diagnostic, code action, completion or workspace edit
+  private originalDiagnostics: WeakMap<Diagnostic, Diagnostic> = new WeakMap(); // Diagnostics as their server reported them, by their copy labelled with a source
 
-      if (!existsSync(process.env.CCLSP_CONFIG_PATH)) {
-        process.stderr.write(
-          `Config file specified in CCLSP_CONFIG_PATH does not exist: ${process.env.CCLSP_CONFIG_PATH}\n`
-        );
-        process.exit(1);
-      }
+  /**
+   * Load the layered configuration (user, project, then CCLSP_CONFIG_PATH or `configPath`).
+   * The user and project configs are looked up in `options.homeDir` and `options.cwd`,
+   * defaulting to the home and current directory. Throws when no configuration is found
+   * or a file is invalid.
+   */
+  constructor(configPath?: string, options: Omit<LoadConfigOptions, 'configPath'> = {}) {
+    this.configOptions = { ...options, configPath };
+    const { config, sources } = loadConfig(this.configOptions);
+    this.config = config;
+    process.stderr.write(
+      `Loaded ${config.servers.length} server configurations from ${sources.map((source) => source.path).join(', ')}\n`
+    );
+  }
 
-      try {
-        const configData = readFileSync(process.env.CCLSP_CONFIG_PATH, 'utf-8');
-        this.config = JSON.parse(configData);
-        process.stderr.write(
-          `Loaded ${this.config.servers.length} server configurations from env\n`
-        );
-        return;
-      } catch (error) {
-        process.stderr.write(`Failed to load config from CCLSP_CONFIG_PATH: ${error}\n`);
-        process.exit(1);
+  /**
+   * Key of a server instance in the servers map: one instance per config and project root
+   */
+  private serverKey(serverConfig: LSPServerConfig, rootDir: string): string {
+    return JSON.stringify({ rootDir, config: serverConfig });
+  }
+
+  /**
+   * Directory a server config is rooted at when no project root is found for a file
+   */
+  private getConfiguredRootDir(serverConfig: LSPServerConfig): string {
+    return resolve(serverConfig.rootDir || process.cwd());
+  }
+
+  /**
+   * Find the project root a file belongs to: the nearest directory above it containing one of
+   * the server's project markers, or the configured rootDir if there is none
+   */
+  private getProjectRoot(filePath: string, serverConfig: LSPServerConfig): string {
+    const configuredRoot = this.getConfiguredRootDir(serverConfig);
+    const markers = this.getServerRootMarkers(serverConfig);
+    const projectRoot =
+      markers.length > 0 ? findNearestProjectRoot(filePath, markers, configuredRoot) : null;
+
+    process.stderr.write(
+      `[DEBUG getProjectRoot] Project root for ${filePath}: ${projectRoot || `${configuredRoot} (no project marker found)`}\n`
+    );
+
+    return projectRoot || configuredRoot;
+  }
+
+  /**
+   * Find the project roots for a server config below its configured rootDir, along with the
+   * roots of instances already started for files elsewhere. Roots are only kept when the
+   * server is selected for their files, so a server gated on `rootMarkers` is not started
+   * when no marker exists. The configured rootDir is used when no marker is found.
+   */
+  private async discoverProjectRoots(serverConfig: LSPServerConfig): Promise<string[]> {
+    const configuredRoot = this.getConfiguredRootDir(serverConfig);
+    const markers = this.getServerRootMarkers(serverConfig);
+    const candidates = markers.length > 0 ? await findProjectRoots(configuredRoot, markers) : [];
+
+    const roots: string[] = [];
+    for (const root of candidates) {
+      if (await this.isSelectedInRoot(serverConfig, root)) {
+        roots.push(root);
       }
     }
-
-    // configPath must be provided if CCLSP_CONFIG_PATH is not set
-    if (!configPath) {
-      process.stderr.write(
-        'Error: configPath is required when CCLSP_CONFIG_PATH environment variable is not set\n'
-      );
-      process.exit(1);
+    if (roots.length === 0 && (await this.isSelectedInRoot(serverConfig, configuredRoot))) {
+      roots.push(configuredRoot);
+    }
+    for (const serverState of this.servers.values()) {
+      if (serverState.config === serverConfig && !roots.includes(serverState.rootDir)) {
+        roots.push(serverState.rootDir);
+      }
     }
 
-    // Try to load from config file
-    try {
-      process.stderr.write(`Loading config from file: ${configPath}\n`);
-      const configData = readFileSync(configPath, 'utf-8');
-      this.config = JSON.parse(configData);
-      process.stderr.write(`Loaded ${this.config.servers.length} server configurations\n`);
-    } catch (error) {
-      process.stderr.write(`Failed to load config from ${configPath}: ${error}\n`);
-      process.exit(1);
+    return roots;
+  }
+
+  /**
+   * Whether a server config would be selected for a source file found in a directory
+   */
+  private async isSelectedInRoot(serverConfig: LSPServerConfig, root: string): Promise<boolean> {
+    const filePath = await this.findFileInDirectory(root, serverConfig.extensions);
+    if (!filePath) {
+      return false;
     }
+    return serverConfig.secondary
+      ? matchServer(serverConfig, filePath) !== null
+      : selectServer(this.config.servers, filePath)?.config === serverConfig;
   }
 
   private getServerForFile(filePath: string): LSPServerConfig | null {
-    const extension = filePath.split('.').pop();
-    if (!extension) {
-      process.stderr.write(`[DEBUG] No extension found: ${extension}\n`);
-      return null;
-    }
+    return this.getServerSelection(filePath)?.config || null;
+  }
 
-    process.stderr.write(`Looking for server for extension: ${extension}\n`);
+  /**
+   * Get the server config that handles a file along with the rule that selected it
+   * (`filePatterns`, `rootMarkers` or `extension`, see `selectServer` for the precedence)
+   */
+  getServerSelection(filePath: string): ServerMatch | null {
+    process.stderr.write(`Looking for server for file: ${filePath}\n`);
     process.stderr.write(
       `Available servers: ${this.config.servers.map((s) => s.extensions.join(',')).join(' | ')}\n`
     );
 
-    const server = this.config.servers.find((server) => server.extensions.includes(extension));
+    const match = selectServer(this.config.servers, filePath);
 
-    if (server) {
-      process.stderr.write(`Found server for ${extension}: ${server.command.join(' ')}\n`);
+    if (match) {
+      process.stderr.write(
+        `Found server for ${filePath}: ${match.config.command.join(' ')} (${match.rule}: ${match.detail})\n`
+      );
     } else {
-      process.stderr.write(`No server found for extension: ${extension}\n`);
+      process.stderr.write(`No server found for file: ${filePath}\n`);
     }
 
-    return server || null;
+    return match;
+  }
+
+  /**
+   * Project markers for a server config: its own `rootMarkers`, or the defaults for its extensions
+   */
+  private getServerRootMarkers(serverConfig: LSPServerConfig): string[] {
+    return serverConfig.rootMarkers?.length
+      ? serverConfig.rootMarkers
+      : getRootMarkers(serverConfig.extensions);
   }
 
-  private async startServer(serverConfig: LSPServerConfig): Promise<ServerState> {
+  private async startServer(
+    serverConfig: LSPServerConfig,
+    rootDir = this.getConfiguredRootDir(serverConfig)
+  ): Promise<ServerState> {
     const [command, ...args] = serverConfig.command;
     if (!command) {
       throw new Error('No command specified in server config');
     }
     const childProcess = spawn(command, args, {
       stdio: ['pipe', 'pipe', 'pipe'],
-      cwd: serverConfig.rootDir || process.cwd(),
+      // Own process group, so wrappers like npx or uvx can be stopped with their children
+      detached: process.platform !== 'win32',
+      cwd: serverConfig.cwd ? resolve(rootDir, serverConfig.cwd) : rootDir,
+      env: serverConfig.env ? { ...process.env, ...serverConfig.env } : process.env,
     });
+    this.processConfigs.set(childProcess, serverConfig);
+    this.serverProcesses.add(childProcess);
 
     let initializationResolve: (() => void) | undefined;
     const initializationPromise = new Promise<void>((resolve) => {
@@ -168,8 +407,12 @@ export class LSPClient {
       initialized: false,
       initializationPromise,
       openFiles: new Set(),
+      documents: new Map(),
       startTime: Date.now(),
+      lastActivity: Date.now(),
+      requestCount: 0,
       config: serverConfig,
+      rootDir,
       restartTimer: undefined,
       diagnostics: new Map(),
       lastDiagnosticUpdate: new Map(),
@@ -177,58 +420,52 @@ export class LSPClient {
       workspaceIndexed: false,
       indexingStartTime: Date.now(),
       filesDiscovered: 0,
+      positionEncoding: 'utf-16',
     };
 
     // Store the resolve function to call when initialized notification is received
     serverState.initializationResolve = initializationResolve;
 
-    let buffer = '';
-    childProcess.stdout?.on('data', (data: Buffer) => {
-      buffer += data.toString();
-
-      while (buffer.includes('\r\n\r\n')) {
-        const headerEndIndex = buffer.indexOf('\r\n\r\n');
-        const headerPart = buffer.substring(0, headerEndIndex);
-        const contentLengthMatch = headerPart.match(/Content-Length: (\d+)/);
-
-        if (contentLengthMatch?.[1]) {
-          const contentLength = Number.parseInt(contentLengthMatch[1]);
-          const messageStart = headerEndIndex + 4;
-
-          if (buffer.length >= messageStart + contentLength) {
-            const messageContent = buffer.substring(messageStart, messageStart + contentLength);
-            buffer = buffer.substring(messageStart + contentLength);
-
-            try {
-              const message: LSPMessage = JSON.parse(messageContent);
-              this.handleMessage(message, serverState);
-            } catch (error) {
-              process.stderr.write(`Failed to parse LSP message: ${error}\n`);
-            }
-          } else {
-            break;
-          }
-        } else {
-          buffer = buffer.substring(headerEndIndex + 4);
-        }
-      }
-    });
+    this.registerServerHandlers(serverState);
+    this.getConnection(childProcess).listen(childProcess.stdout, (error) =>
+      process.stderr.write(`${error.message}\n`)
+    );
 
     childProcess.stderr?.on('data', (data: Buffer) => {
       // Forward LSP server stderr directly to MCP stderr
       process.stderr.write(data);
     });
 
+    childProcess.stdin?.on('error', (error) => {
+      process.stderr.write(`[DEBUG startServer] Failed to write to server: ${error.message}\n`);
+    });
+
+    childProcess.on('exit', (code, signal) => {
+      this.serverProcesses.delete(childProcess);
+      this.handleServerExit(
+        serverState,
+        signal ? `killed by ${signal}` : `exited with code ${code ?? 'unknown'}`
+      );
+    });
+    childProcess.on('error', (error) => {
+      this.serverProcesses.delete(childProcess);
+      this.handleServerExit(serverState, `process error: ${error.message}`);
+    });
+
     // Initialize the server
     const initResult = await this.sendRequest(childProcess, 'initialize', {
       processId: childProcess.pid || null,
       clientInfo: { name: 'cclsp', version: '0.1.0' },
       capabilities: {
+        general: {
+          positionEncodings: SUPPORTED_POSITION_ENCODINGS,
+        },
         textDocument: {
           synchronization: {
             didOpen: true,
             didChange: true,
             didClose: true,
+            didSave: true,
           },
           definition: { linkSupport: false },
           references: {
@@ -255,6 +492,15 @@ export class LSPClient {
           typeDefinition: {
             linkSupport: false,
           },
+          implementation: {
+            linkSupport: false,
+          },
+          callHierarchy: {
+            dynamicRegistration: false,
+          },
+          typeHierarchy: {
+            dynamicRegistration: false,
+          },
           diagnostic: {
             dynamicRegistration: false,
             relatedDocumentSupport: false,
@@ -262,6 +508,17 @@ export class LSPClient {
         },
         workspace: {
           workspaceFolders: true,
+          applyEdit: true,
+          configuration: true,
+          workspaceEdit: {
+            documentChanges: true,
+            resourceOperations: ['create', 'rename', 'delete'],
+          },
+          fileOperations: {
+            didCreate: true,
+            didRename: true,
+            didDelete: true,
+          },
           symbol: {
             symbolKind: {
               valueSet: [
@@ -279,39 +536,22 @@ export class LSPClient {
           workDoneProgress: true,
         },
       },
-      rootUri: pathToFileURL(serverConfig.rootDir || process.cwd()).toString(),
+      rootUri: pathToFileURL(rootDir).toString(),
       workspaceFolders: [
         {
-          uri: pathToFileURL(serverConfig.rootDir || process.cwd()).toString(),
+          uri: pathToFileURL(rootDir).toString(),
           name: 'workspace',
         },
       ],
-      initializationOptions: {
-        settings: {
-          pylsp: {
-            plugins: {
-              jedi_completion: { enabled: true },
-              jedi_definition: { enabled: true },
-              jedi_hover: { enabled: true },
-              jedi_references: { enabled: true },
-              jedi_signature_help: { enabled: true },
-              jedi_symbols: { enabled: true },
-              pylint: { enabled: false },
-              pycodestyle: { enabled: false },
-              pyflakes: { enabled: false },
-              yapf: { enabled: false },
-              rope_completion: { enabled: false },
-            },
-          },
-        },
-      },
+      initializationOptions: serverConfig.initializationOptions,
     });
 
     // Store server capabilities from the initialization response
     if (initResult && typeof initResult === 'object' && 'capabilities' in initResult) {
       serverState.capabilities = initResult.capabilities as ServerCapabilities;
+      serverState.positionEncoding = getPositionEncoding(serverState.capabilities);
       process.stderr.write(
-        `[DEBUG startServer] Stored capabilities for ${serverConfig.command.join(' ')}\n`
+        `[DEBUG startServer] Stored capabilities for ${serverConfig.command.join(' ')} (position encoding ${serverState.positionEncoding})\n`
       );
     } else {
       process.stderr.write(
@@ -322,13 +562,20 @@ export class LSPClient {
     // Send the initialized notification after receiving the initialize response
     await this.sendNotification(childProcess, 'initialized', {});
 
+    // Servers that don't pull settings through workspace/configuration expect them pushed
+    if (serverConfig.settings) {
+      await this.sendNotification(childProcess, 'workspace/didChangeConfiguration', {
+        settings: serverConfig.settings,
+      });
+    }
+
     // Wait for the server to send the initialized notification back with timeout
-    const INITIALIZATION_TIMEOUT = 3000; // 3 seconds
+    const startupTimeout = this.getTimeouts(serverConfig).startup ?? DEFAULT_STARTUP_TIMEOUT_MS;
     try {
       await Promise.race([
         initializationPromise,
         new Promise<void>((_, reject) =>
-          setTimeout(() => reject(new Error('Initialization timeout')), INITIALIZATION_TIMEOUT)
+          setTimeout(() => reject(new Error('Initialization timeout')), startupTimeout)
         ),
       ]);
     } catch (error) {
@@ -343,113 +590,254 @@ export class LSPClient {
       }
     }
 
-    // Set up auto-restart timer if configured
+    // Set up auto-restart timers if configured
     this.setupRestartTimer(serverState);
+    this.setupMemoryMonitor(serverState);
+    this.scheduleIdleShutdown(serverState);
 
     return serverState;
   }
 
-  private handleMessage(message: LSPMessage, serverState?: ServerState) {
-    if (message.id && this.pendingRequests.has(message.id)) {
-      const request = this.pendingRequests.get(message.id);
-      if (!request) return;
-      const { resolve, reject } = request;
-      this.pendingRequests.delete(message.id);
+  /**
+   * Handle the notifications and requests a server sends on its connection. Requests
+   * without a handler are answered with a MethodNotFound error by the connection.
+   */
+  private registerServerHandlers(serverState: ServerState): void {
+    const connection = this.getConnection(serverState.process);
 
-      if (message.error) {
-        reject(new Error(message.error.message || 'LSP Error'));
-      } else {
-        resolve(message.result);
+    connection.onNotification('initialized', () => {
+      process.stderr.write(
+        '[DEBUG registerServerHandlers] Received initialized notification from server\n'
+      );
+      serverState.initialized = true;
+      // Start monitoring workspace indexing
+      this.startWorkspaceIndexingMonitor(serverState);
+      // Resolve the initialization promise
+      const resolve = serverState.initializationResolve;
+      if (resolve) {
+        resolve();
+        serverState.initializationResolve = undefined;
       }
-    }
+    });
+
+    // Handle workspace indexing progress
+    connection.onNotification('$/progress', (params) =>
+      this.handleWorkspaceProgress(params, serverState)
+    );
 
-    // Handle notifications from server
-    if (message.method && serverState) {
-      if (message.method === 'initialized') {
+    connection.onNotification('textDocument/publishDiagnostics', (rawParams) => {
+      const params = this.convertServerPositions(serverState, rawParams, 'fromServer') as {
+        uri: string;
+        diagnostics: Diagnostic[];
+        version?: number;
+      };
+      if (params?.uri) {
         process.stderr.write(
-          '[DEBUG /ehandleMessage] Received initialized notification from server\n'
+          `[DEBUG registerServerHandlers] Received publishDiagnostics for ${params.uri} with ${params.diagnostics?.length || 0} diagnostics${params.version !== undefined ? ` (version: ${params.version})` : ''}\n`
         );
-        serverState.initialized = true;
-        // Start monitoring workspace indexing
-        this.startWorkspaceIndexingMonitor(serverState);
-        // Resolve the initialization promise
-        const resolve = serverState.initializationResolve;
-        if (resolve) {
-          resolve();
-          serverState.initializationResolve = undefined;
+        serverState.diagnostics.set(params.uri, params.diagnostics || []);
+        serverState.lastDiagnosticUpdate.set(params.uri, Date.now());
+        if (params.version !== undefined) {
+          serverState.diagnosticVersions.set(params.uri, params.version);
         }
-      } else if (message.method === '$/progress') {
-        // Handle workspace indexing progress
-        this.handleWorkspaceProgress(message.params, serverState);
-      } else if (message.method === 'textDocument/publishDiagnostics') {
-        // Handle diagnostic notifications from the server
-        const params = message.params as {
-          uri: string;
-          diagnostics: Diagnostic[];
-          version?: number;
+      }
+    });
+
+    connection.onRequest('workspace/applyEdit', async (rawParams) => {
+      const params = rawParams as { label?: string; edit: WorkspaceEdit };
+      try {
+        const edit = this.convertServerPositions(serverState, params.edit, 'fromServer');
+        this.resultOrigins.set(edit, serverState);
+        await this.applyWorkspaceEdit(edit, params.label || 'Edit requested by language server');
+        return { applied: true };
+      } catch (error) {
+        return {
+          applied: false,
+          failureReason: error instanceof Error ? error.message : String(error),
         };
-        if (params?.uri) {
-          process.stderr.write(
-            `[DEBUG handleMessage] Received publishDiagnostics for ${params.uri} with ${params.diagnostics?.length || 0} diagnostics${params.version !== undefined ? ` (version: ${params.version})` : ''}\n`
-          );
-          serverState.diagnostics.set(params.uri, params.diagnostics || []);
-          serverState.lastDiagnosticUpdate.set(params.uri, Date.now());
-          if (params.version !== undefined) {
-            serverState.diagnosticVersions.set(params.uri, params.version);
-          }
-        }
       }
+    });
+
+    connection.onRequest('workspace/configuration', (rawParams) => {
+      const params = rawParams as { items?: { scopeUri?: string; section?: string }[] };
+      return (params?.items || []).map((item) =>
+        this.getConfigurationSection(serverState, item.section)
+      );
+    });
+
+    connection.onRequest('workspace/workspaceFolders', () => [
+      { uri: pathToFileURL(serverState.rootDir).toString(), name: 'workspace' },
+    ]);
+
+    for (const method of ACKNOWLEDGED_SERVER_REQUESTS) {
+      connection.onRequest(method, () => null);
+    }
+
+    connection.onRequest('window/showDocument', () => ({ success: false }));
+  }
+
+  /**
+   * Look up a dotted configuration section (e.g. "python.analysis") in the server's
+   * settings from the cclsp config. Returns all settings when no section is given.
+   */
+  private getConfigurationSection(serverState: ServerState, section?: string): unknown {
+    let value: unknown = serverState.config.settings ?? {};
+    if (!section) {
+      return value;
+    }
+
+    for (const key of section.split('.')) {
+      if (!value || typeof value !== 'object' || !(key in value)) {
+        return null;
+      }
+      value = (value as Record<string, unknown>)[key];
+    }
+    return value;
+  }
+
+  /**
+   * JSON-RPC connection of a server process, which owns its request ids and pending
+   * requests. Created on first use, so there is exactly one per server instance.
+   */
+  private getConnection(serverProcess: ChildProcess): JsonRpcConnection {
+    let connection = this.connections.get(serverProcess);
+    if (!connection) {
+      connection = new JsonRpcConnection(serverProcess.stdin);
+      this.connections.set(serverProcess, connection);
     }
+    return connection;
   }
 
-  private sendMessage(process: ChildProcess, message: LSPMessage): void {
-    const content = JSON.stringify(message);
-    const header = `Content-Length: ${Buffer.byteLength(content)}\r\n\r\n`;
-    process.stdin?.write(header + content);
+  /**
+   * Run a tool call with the abort signal of its MCP request. Aborting the signal
+   * cancels the LSP requests the tool call has in flight with `$/cancelRequest`.
+   */
+  withCancellation<T>(signal: AbortSignal | undefined, fn: () => Promise<T>): Promise<T> {
+    return signal ? this.cancellation.run(signal, fn) : fn();
   }
 
-  private sendRequest(
-    process: ChildProcess,
+  /**
+   * Configured timeouts for a server: its own `timeouts` on top of the top-level ones
+   */
+  private getTimeouts(serverConfig: LSPServerConfig | undefined): RequestTimeouts {
+    return { ...this.config.timeouts, ...serverConfig?.timeouts };
+  }
+
+  /**
+   * Send a request, retrying it while the server answers that the content was modified
+   * or that it cancelled the request. The timeout comes from the `timeouts` configured
+   * for the method, then `timeout`, then the configured `default`.
+   */
+  private async sendRequest(
+    serverProcess: ChildProcess,
     method: string,
     params: unknown,
-    timeout = 30000
+    timeout?: number
   ): Promise<unknown> {
-    const id = this.nextId++;
-    const message: LSPMessage = {
-      jsonrpc: '2.0',
-      id,
-      method,
-      params,
-    };
+    const timeouts = this.getTimeouts(this.processConfigs.get(serverProcess));
+    const timeoutMs = timeouts[method] ?? timeout ?? timeouts.default ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    const serverState = [...this.servers.values()].find((state) => state.process === serverProcess);
+    const uri = getRequestDocumentUri(params);
+    const connection = this.getConnection(serverProcess);
 
-    return new Promise((resolve, reject) => {
-      const timeoutId = setTimeout(() => {
-        this.pendingRequests.delete(id);
-        reject(new Error(`LSP request timeout: ${method} (${timeout}ms)`));
-      }, timeout);
+    try {
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await connection.sendRequest(
+            method,
+            this.convertServerPositions(serverState, params, 'toServer', uri),
+            { timeout: timeoutMs, signal: this.cancellation.getStore() }
+          );
+          this.recordResponse(serverState);
+          return this.convertServerPositions(serverState, result, 'fromServer', uri);
+        } catch (error) {
+          if (error instanceof LSPRequestError) {
+            this.recordResponse(serverState);
+          }
+          if (attempt >= MAX_REQUEST_RETRIES || !this.isRetryableError(error)) {
+            throw error;
+          }
+          const delay = REQUEST_RETRY_DELAY_MS * 2 ** attempt;
+          process.stderr.write(
+            `[DEBUG sendRequest] ${method} failed with ${(error as LSPRequestError).message}, retrying in ${delay}ms\n`
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+      }
+    } finally {
+      // A restart waiting for pending requests may be able to go ahead now, also when
+      // this request timed out or was cancelled. Retries still go to the same server.
+      if (serverState?.restartReason) {
+        this.restartWhenIdle(serverState);
+      }
+    }
+  }
 
-      this.pendingRequests.set(id, {
-        resolve: (value: unknown) => {
-          clearTimeout(timeoutId);
-          resolve(value);
-        },
-        reject: (reason?: unknown) => {
-          clearTimeout(timeoutId);
-          reject(reason);
-        },
-      });
+  /**
+   * Count a response of a running server towards its activity and its maxRequests
+   */
+  private recordResponse(serverState: ServerState | undefined): void {
+    if (!serverState) {
+      return;
+    }
+    serverState.lastActivity = Date.now();
+    serverState.requestCount++;
+    const { maxRequests } = serverState.config;
+    if (maxRequests && serverState.requestCount >= maxRequests) {
+      serverState.restartReason ??= `answered ${serverState.requestCount} requests`;
+    }
+  }
 
-      this.sendMessage(process, message);
+  /**
+   * Convert the positions in a value sent to or received from a server between UTF-16,
+   * which cclsp uses everywhere else, and the server's negotiated position encoding
+   * @param uri Document of positions that don't name their own
+   */
+  private convertServerPositions<T>(
+    serverState: ServerState | undefined,
+    value: T,
+    direction: 'toServer' | 'fromServer',
+    uri?: string
+  ): T {
+    if (!serverState || serverState.positionEncoding === 'utf-16') {
+      return value;
+    }
+    const serverEncoding = serverState.positionEncoding;
+    return convertPositions(value, {
+      from: direction === 'toServer' ? 'utf-16' : serverEncoding,
+      to: direction === 'toServer' ? serverEncoding : 'utf-16',
+      uri,
+      getText: (documentUri) => this.getDocumentText(serverState, documentUri),
     });
   }
 
-  private sendNotification(process: ChildProcess, method: string, params: unknown): void {
-    const message: LSPMessage = {
-      jsonrpc: '2.0',
-      method,
-      params,
-    };
-    this.sendMessage(process, message);
+  /**
+   * Content of a document as the server knows it: the synced content of open documents,
+   * or the file on disk
+   */
+  private getDocumentText(serverState: ServerState, uri: string): string | undefined {
+    try {
+      const filePath = uriToPath(uri);
+      return serverState.documents.get(filePath)?.content ?? readFileSync(filePath, 'utf-8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private isRetryableError(error: unknown): boolean {
+    if (!(error instanceof LSPRequestError)) {
+      return false;
+    }
+    if (error.code === CONTENT_MODIFIED) {
+      return true;
+    }
+    // Servers may say that retrying is pointless, e.g. for pull diagnostics
+    const data = error.data as { retriggerRequest?: boolean } | undefined;
+    return error.code === SERVER_CANCELLED && data?.retriggerRequest !== false;
+  }
+
+  private sendNotification(serverProcess: ChildProcess, method: string, params: unknown): void {
+    this.getConnection(serverProcess).sendNotification(method, params);
   }
 
   private setupRestartTimer(serverState: ServerState): void {
@@ -464,32 +852,118 @@ export class LSPClient {
       );
 
       serverState.restartTimer = setTimeout(() => {
-        this.restartServer(serverState);
+        serverState.restartTimer = undefined;
+        this.requestRestart(serverState, `restart interval of ${actualInterval} minutes`);
       }, intervalMs);
     }
   }
 
+  private setupMemoryMonitor(serverState: ServerState): void {
+    if (!serverState.config.maxMemory || serverState.config.maxMemory <= 0) {
+      return;
+    }
+    serverState.memoryTimer = setInterval(() => {
+      this.checkServerMemory(serverState).catch((error) => {
+        process.stderr.write(`[DEBUG checkServerMemory] Failed to sample memory: ${error}\n`);
+      });
+    }, MEMORY_CHECK_INTERVAL_MS);
+  }
+
+  private async checkServerMemory(serverState: ServerState): Promise<void> {
+    const { maxMemory } = serverState.config;
+    const pid = serverState.process.pid;
+    if (!maxMemory || pid === undefined || serverState.exited || serverState.restartReason) {
+      return;
+    }
+
+    const memoryBytes = await this.sampleServerMemory(pid);
+    if (memoryBytes === undefined || serverState.exited) {
+      return;
+    }
+    serverState.memoryBytes = memoryBytes;
+
+    const memoryMb = Math.round(memoryBytes / (1024 * 1024));
+    if (memoryMb > maxMemory) {
+      this.requestRestart(serverState, `using ${memoryMb} MB of memory (limit ${maxMemory} MB)`);
+    }
+  }
+
+  private sampleServerMemory(pid: number): Promise<number | undefined> {
+    return getProcessTreeMemory(pid);
+  }
+
+  /**
+   * Restart a server for its restart policy. The restart waits until the server has
+   * answered all pending requests, so no request in flight is cut off.
+   */
+  private requestRestart(serverState: ServerState, reason: string): void {
+    if (serverState.restartReason || serverState.exited) {
+      return;
+    }
+    serverState.restartReason = reason;
+    this.restartWhenIdle(serverState);
+  }
+
+  private restartWhenIdle(serverState: ServerState): void {
+    const key = this.serverKey(serverState.config, serverState.rootDir);
+    if (this.servers.get(key) !== serverState || serverState.exited) {
+      return;
+    }
+    if (this.hasPendingRequests(serverState)) {
+      process.stderr.write(
+        `[DEBUG restartWhenIdle] Restart of ${this.getServerName(serverState.config)} (${serverState.restartReason}) waits for pending requests\n`
+      );
+      return;
+    }
+
+    const restart = this.restartServer(serverState).finally(() => {
+      if (this.restarts.get(key) === restart) {
+        this.restarts.delete(key);
+      }
+    });
+    this.restarts.set(key, restart);
+  }
+
+  /**
+   * Start a server instance, unless the client has been disposed. An instance that
+   * finishes starting after `dispose` is stopped again, since nothing else would stop it.
+   */
+  private async startServerUnlessDisposed(
+    serverConfig: LSPServerConfig,
+    rootDir: string
+  ): Promise<ServerState> {
+    const disposedError = () =>
+      new Error(`Not starting ${this.getServerName(serverConfig)}: the LSP client was disposed`);
+    if (this.disposed) {
+      throw disposedError();
+    }
+    const serverState = await this.startServer(serverConfig, rootDir);
+    if (this.disposed) {
+      await this.stopServer(this.serverKey(serverConfig, rootDir), serverState);
+      throw disposedError();
+    }
+    return serverState;
+  }
+
   private async restartServer(serverState: ServerState): Promise<void> {
-    const key = JSON.stringify(serverState.config);
+    const key = this.serverKey(serverState.config, serverState.rootDir);
     process.stderr.write(
-      `[DEBUG restartServer] Restarting LSP server for ${serverState.config.command.join(' ')}\n`
+      `[DEBUG restartServer] Restarting LSP server for ${serverState.config.command.join(' ')} in ${serverState.rootDir}${serverState.restartReason ? ` (${serverState.restartReason})` : ''}\n`
     );
 
-    // Clear existing timer
-    if (serverState.restartTimer) {
-      clearTimeout(serverState.restartTimer);
-      serverState.restartTimer = undefined;
+    await this.stopServer(key, serverState);
+    if (this.disposed) {
+      return;
     }
 
-    // Terminate old server
-    serverState.process.kill();
-
-    // Remove from servers map
-    this.servers.delete(key);
-
     try {
       // Start new server
-      const newServerState = await this.startServer(serverState.config);
+      const newServerState = await this.startServer(serverState.config, serverState.rootDir);
+      if (this.disposed || this.servers.has(key)) {
+        // Disposed, or replaced in the meantime, e.g. by a config reload or restart_server
+        await this.stopServer(key, newServerState);
+        return;
+      }
       this.servers.set(key, newServerState);
 
       process.stderr.write(
@@ -533,50 +1007,503 @@ export class LSPClient {
 
     // Restart each server
     for (const { key, state } of serversToRestart) {
-      const serverDesc = `${state.config.command.join(' ')} (${state.config.extensions.join(', ')})`;
+      const serverDesc = `${state.config.command.join(' ')} (${state.config.extensions.join(', ')}) in ${state.rootDir}`;
 
       try {
-        // Clear existing timer
-        if (state.restartTimer) {
-          clearTimeout(state.restartTimer);
-          state.restartTimer = undefined;
+        await this.stopServer(key, state);
+
+        // Start new server
+        const newServerState = await this.startServerUnlessDisposed(state.config, state.rootDir);
+        this.servers.set(key, newServerState);
+
+        restarted.push(serverDesc);
+        process.stderr.write(`[DEBUG restartServers] Successfully restarted: ${serverDesc}\n`);
+      } catch (error) {
+        failed.push(`${serverDesc}: ${error}`);
+        process.stderr.write(`[DEBUG restartServers] Failed to restart: ${serverDesc}: ${error}\n`);
+      }
+    }
+
+    const success = failed.length === 0;
+    let message: string;
+
+    if (success) {
+      message = `Successfully restarted ${restarted.length} LSP server(s)`;
+    } else if (restarted.length > 0) {
+      message = `Restarted ${restarted.length} server(s), but ${failed.length} failed`;
+    } else {
+      message = `Failed to restart all ${failed.length} server(s)`;
+    }
+
+    return { success, restarted, failed, message };
+  }
+
+  /**
+   * Stop a server instance and forget it along with its crash history. It is started
+   * again on the next request for one of its files. Resolves once the process is gone,
+   * with requests still waiting for it rejected.
+   */
+  private async stopServer(key: string, serverState: ServerState): Promise<void> {
+    this.clearServerTimers(serverState);
+    if (this.servers.get(key) === serverState) {
+      this.servers.delete(key);
+      this.crashes.delete(key);
+    }
+    if (!serverState.exited) {
+      serverState.exited = true;
+      // Cancelling the tool call that stops the server must not cut its shutdown short
+      await this.cancellation.exit(() => this.shutdownServer(serverState));
+    }
+    this.getConnection(serverState.process).dispose(
+      new Error(
+        `Language server ${this.getServerName(serverState.config)} was stopped before responding`
+      )
+    );
+  }
+
+  /**
+   * Stop a server process: the `shutdown` request and `exit` notification first, so the
+   * server can clean up its caches and lock files, then SIGTERM and finally SIGKILL when
+   * it doesn't exit in time. Signals go to the whole process group.
+   */
+  private async shutdownServer(serverState: ServerState): Promise<void> {
+    const serverProcess = serverState.process;
+
+    if (serverProcess.exitCode === null && serverProcess.signalCode === null) {
+      const name = this.getServerName(serverState.config);
+      try {
+        await this.sendRequest(serverProcess, 'shutdown', null, SHUTDOWN_TIMEOUT_MS);
+        this.sendNotification(serverProcess, 'exit', null);
+      } catch (error) {
+        process.stderr.write(
+          `[DEBUG shutdownServer] No shutdown response from ${name}: ${error}\n`
+        );
+      }
+
+      if (!(await this.waitForExit(serverProcess, EXIT_TIMEOUT_MS))) {
+        process.stderr.write(`[DEBUG shutdownServer] Sending SIGTERM to ${name}\n`);
+        this.killProcessGroup(serverProcess, 'SIGTERM');
+
+        if (!(await this.waitForExit(serverProcess, SIGTERM_TIMEOUT_MS))) {
+          process.stderr.write(`[DEBUG shutdownServer] Sending SIGKILL to ${name}\n`);
+          this.killProcessGroup(serverProcess, 'SIGKILL');
+          await this.waitForExit(serverProcess, SIGTERM_TIMEOUT_MS);
+        }
+      }
+    }
+
+    // Children of wrapper commands may outlive the server itself
+    this.killProcessGroup(serverProcess, 'SIGTERM');
+  }
+
+  private waitForExit(serverProcess: ChildProcess, timeoutMs: number): Promise<boolean> {
+    if (serverProcess.exitCode !== null || serverProcess.signalCode !== null) {
+      return Promise.resolve(true);
+    }
+    return new Promise((resolve) => {
+      const onExit = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      const timer = setTimeout(() => {
+        serverProcess.off('exit', onExit);
+        resolve(false);
+      }, timeoutMs);
+      serverProcess.once('exit', onExit);
+    });
+  }
+
+  /**
+   * Send SIGTERM to the process groups of all running servers, without waiting for them.
+   * Servers run in their own process group, so this is needed when cclsp exits without
+   * `dispose` for them not to outlive it.
+   */
+  killServers(): void {
+    for (const serverProcess of this.serverProcesses) {
+      this.killProcessGroup(serverProcess, 'SIGTERM');
+    }
+  }
+
+  private killProcessGroup(serverProcess: ChildProcess, signal: NodeJS.Signals): void {
+    if (serverProcess.pid && process.platform !== 'win32') {
+      try {
+        // A negative pid signals the process group led by the server
+        process.kill(-serverProcess.pid, signal);
+        return;
+      } catch {
+        // The group is already gone
+      }
+    }
+    serverProcess.kill(signal);
+  }
+
+  /**
+   * Called when a server process exits or fails. Unless we stopped it ourselves, requests
+   * still waiting for it are rejected right away and the server is restarted after a
+   * backoff delay.
+   */
+  private handleServerExit(serverState: ServerState, reason: string): void {
+    const name = this.getServerName(serverState.config);
+    this.getConnection(serverState.process).dispose(
+      new Error(`Language server ${name} ${reason} before responding`)
+    );
+    if (serverState.exited) {
+      return;
+    }
+    serverState.exited = true;
+
+    process.stderr.write(
+      `[DEBUG handleServerExit] Language server ${name} in ${serverState.rootDir} ${reason}\n`
+    );
+
+    this.clearServerTimers(serverState);
+
+    // Crashes during startup surface as an error from startServer instead
+    const key = this.serverKey(serverState.config, serverState.rootDir);
+    if (this.servers.get(key) === serverState) {
+      this.scheduleCrashRestart(key, serverState, reason);
+    }
+  }
+
+  private clearServerTimers(serverState: ServerState): void {
+    if (serverState.restartTimer) {
+      clearTimeout(serverState.restartTimer);
+      serverState.restartTimer = undefined;
+    }
+    if (serverState.idleTimer) {
+      clearTimeout(serverState.idleTimer);
+      serverState.idleTimer = undefined;
+    }
+    if (serverState.memoryTimer) {
+      clearInterval(serverState.memoryTimer);
+      serverState.memoryTimer = undefined;
+    }
+  }
+
+  /**
+   * Idle timeout of a server in milliseconds, from its own `idleTimeout` or the global
+   * default. Undefined when the server should keep running while unused.
+   */
+  private getIdleTimeoutMs(serverConfig: LSPServerConfig): number | undefined {
+    const minutes = serverConfig.idleTimeout ?? this.config.idleTimeout;
+    return minutes && minutes > 0 ? minutes * 60 * 1000 : undefined;
+  }
+
+  private hasPendingRequests(serverState: ServerState): boolean {
+    return this.getConnection(serverState.process).hasPendingRequests();
+  }
+
+  /**
+   * Schedule the next idle check for when the server's idle timeout would run out
+   */
+  private scheduleIdleShutdown(serverState: ServerState): void {
+    const timeoutMs = this.getIdleTimeoutMs(serverState.config);
+    if (timeoutMs === undefined || serverState.exited) {
+      return;
+    }
+    if (serverState.idleTimer) {
+      clearTimeout(serverState.idleTimer);
+    }
+    const remainingMs = Math.max(timeoutMs - (Date.now() - serverState.lastActivity), 0);
+    serverState.idleTimer = setTimeout(() => this.checkIdleServer(serverState), remainingMs);
+  }
+
+  /**
+   * Stop a server that had no requests for its idle timeout. It is started again by
+   * `getServer` on the next request for one of its files.
+   */
+  private checkIdleServer(serverState: ServerState): void {
+    serverState.idleTimer = undefined;
+    const timeoutMs = this.getIdleTimeoutMs(serverState.config);
+    const key = this.serverKey(serverState.config, serverState.rootDir);
+    if (timeoutMs === undefined || this.servers.get(key) !== serverState) {
+      return;
+    }
+
+    // A slow request counts as activity until it is answered
+    if (this.hasPendingRequests(serverState)) {
+      serverState.lastActivity = Date.now();
+    }
+    if (Date.now() - serverState.lastActivity < timeoutMs) {
+      this.scheduleIdleShutdown(serverState);
+      return;
+    }
+
+    process.stderr.write(
+      `[DEBUG checkIdleServer] Stopping ${this.getServerName(serverState.config)} in ${serverState.rootDir} after ${timeoutMs / 60000} minutes without requests\n`
+    );
+    this.stopServer(key, serverState).catch((error) => {
+      process.stderr.write(`[DEBUG checkIdleServer] Failed to stop idle server: ${error}\n`);
+    });
+  }
+
+  private getCrashRestartDelay(attempt: number): number {
+    return Math.min(CRASH_RESTART_BASE_DELAY_MS * 2 ** (attempt - 1), CRASH_RESTART_MAX_DELAY_MS);
+  }
+
+  /**
+   * Record a crash and restart the server after an exponential backoff, unless it has
+   * crashed too often recently. The crashed state stays in `servers` meanwhile, so that
+   * requests wait for the restart and the status tool can report it.
+   */
+  private scheduleCrashRestart(key: string, crashed: ServerState, reason: string): void {
+    const now = Date.now();
+    const record = this.crashes.get(key) ?? { count: 0, recent: [], gaveUp: false };
+    record.count++;
+    record.recent = [...record.recent.filter((time) => now - time < CRASH_LOOP_WINDOW_MS), now];
+    record.lastCrashTime = now;
+    record.lastReason = reason;
+    this.crashes.set(key, record);
+
+    const name = this.getServerName(crashed.config);
+    if (record.recent.length > MAX_CRASH_RESTARTS) {
+      record.gaveUp = true;
+      process.stderr.write(
+        `[DEBUG scheduleCrashRestart] ${name} crashed ${record.recent.length} times within ${CRASH_LOOP_WINDOW_MS / 60000} minutes, not restarting it again\n`
+      );
+      return;
+    }
+
+    const delay = this.getCrashRestartDelay(record.recent.length);
+    process.stderr.write(
+      `[DEBUG scheduleCrashRestart] Restarting ${name} in ${crashed.rootDir} in ${delay}ms\n`
+    );
+    const restart: Promise<void> = new Promise<void>((resolve) => {
+      const timer = setTimeout(resolve, delay);
+      record.skipBackoff = () => {
+        clearTimeout(timer);
+        resolve();
+      };
+    })
+      .then(() => this.recoverServer(key, crashed))
+      .finally(() => {
+        // A failed restart may already have scheduled the next attempt
+        if (record.restart === restart) {
+          record.restart = undefined;
         }
+      });
+    record.restart = restart;
+  }
 
-        // Terminate old server
-        state.process.kill();
+  private async recoverServer(key: string, crashed: ServerState): Promise<void> {
+    // Stopped, removed or restarted by someone else in the meantime
+    if (this.servers.get(key) !== crashed) {
+      return;
+    }
+
+    let serverState: ServerState;
+    try {
+      serverState = await this.startServer(crashed.config, crashed.rootDir);
+    } catch (error) {
+      if (this.servers.get(key) === crashed) {
+        this.scheduleCrashRestart(key, crashed, `failed to restart: ${error}`);
+      }
+      return;
+    }
+
+    if (this.servers.get(key) !== crashed) {
+      await this.stopServer(key, serverState);
+      return;
+    }
+    this.servers.set(key, serverState);
 
-        // Remove from servers map
-        this.servers.delete(key);
+    for (const filePath of crashed.openFiles) {
+      try {
+        await this.ensureFileOpen(serverState, filePath);
+      } catch (error) {
+        process.stderr.write(`[DEBUG recoverServer] Failed to reopen ${filePath}: ${error}\n`);
+      }
+    }
+    process.stderr.write(
+      `[DEBUG recoverServer] Restarted ${this.getServerName(crashed.config)} in ${crashed.rootDir} and reopened ${crashed.openFiles.size} file(s)\n`
+    );
+  }
+
+  /**
+   * Status of every server instance, including crashed ones waiting for a restart
+   */
+  getServerStatus(): ServerStatus[] {
+    return [...this.servers.entries()].map(([key, serverState]) => {
+      const record = this.crashes.get(key);
+      let status: ServerStatus['status'] = 'running';
+      if (serverState.exited) {
+        status = record?.gaveUp ? 'failed' : 'restarting';
+      }
+      return {
+        name: this.getServerName(serverState.config),
+        extensions: serverState.config.extensions,
+        rootDir: serverState.rootDir,
+        pid: serverState.exited ? undefined : serverState.process.pid,
+        status,
+        uptimeMs: serverState.exited ? 0 : Date.now() - serverState.startTime,
+        idleMs: Date.now() - serverState.lastActivity,
+        idleTimeoutMs: this.getIdleTimeoutMs(serverState.config),
+        memoryBytes: serverState.memoryBytes,
+        maxMemoryBytes: serverState.config.maxMemory
+          ? serverState.config.maxMemory * 1024 * 1024
+          : undefined,
+        requestCount: serverState.requestCount,
+        maxRequests: serverState.config.maxRequests,
+        pendingRestart: serverState.restartReason,
+        openFiles: serverState.openFiles.size,
+        crashCount: record?.count ?? 0,
+        lastCrashTime: record?.lastCrashTime,
+        lastCrashReason: record?.lastReason,
+      };
+    });
+  }
+
+  private getServerInstances(serverConfig: LSPServerConfig): Array<[string, ServerState]> {
+    return [...this.servers.entries()].filter(([, state]) => state.config === serverConfig);
+  }
+
+  /**
+   * Reload the configuration files and apply the difference to the running servers:
+   * removed servers are stopped, running instances of changed servers are restarted with
+   * their new config, and added servers are started for the project roots containing
+   * their files. Unchanged servers keep running. Throws and keeps the current
+   * configuration when the new one can't be loaded.
+   */
+  async reloadConfig(): Promise<ConfigReloadResult> {
+    const reload = this.configReload.then(() => this.applyConfigReload());
+    this.configReload = reload.catch(() => {});
+    return reload;
+  }
+
+  private async applyConfigReload(): Promise<ConfigReloadResult> {
+    const { config, sources } = loadConfig(this.configOptions);
+    const diff = diffServerConfigs(this.config.servers, config.servers);
+
+    // Running instances are keyed by their config object, so unchanged servers keep theirs
+    const previousConfigs = new Map(diff.unchanged.map(({ previous, next }) => [next, previous]));
+    this.config = {
+      ...config,
+      servers: config.servers.map((server) => previousConfigs.get(server) ?? server),
+    };
+
+    // The global idleTimeout may have changed for servers that keep running
+    for (const serverState of this.servers.values()) {
+      this.scheduleIdleShutdown(serverState);
+    }
+
+    const result: ConfigReloadResult = {
+      sources: sources.map((source) => source.path),
+      added: [],
+      removed: [],
+      changed: [],
+      failed: [],
+      unchanged: diff.unchanged.length,
+    };
+
+    const startInstance = async (serverConfig: LSPServerConfig, rootDir: string) => {
+      try {
+        await this.getServerForRoot(serverConfig, rootDir);
+      } catch (error) {
+        result.failed.push(`${this.getServerName(serverConfig)} in ${rootDir}: ${error}`);
+      }
+    };
+
+    for (const serverConfig of diff.removed) {
+      await Promise.all(
+        this.getServerInstances(serverConfig).map(([key, state]) => this.stopServer(key, state))
+      );
+      result.removed.push(this.getServerName(serverConfig));
+    }
+
+    for (const { previous, next } of diff.changed) {
+      for (const [key, state] of this.getServerInstances(previous)) {
+        await this.stopServer(key, state);
+        await startInstance(next, state.rootDir);
+      }
+      result.changed.push(this.getServerName(next));
+    }
+
+    for (const serverConfig of diff.added) {
+      result.added.push(this.getServerName(serverConfig));
+      const configuredRoot = this.getConfiguredRootDir(serverConfig);
+      if (!(await this.findFileInDirectory(configuredRoot, serverConfig.extensions))) {
+        continue;
+      }
+      for (const rootDir of await this.discoverProjectRoots(serverConfig)) {
+        await startInstance(serverConfig, rootDir);
+      }
+    }
+
+    process.stderr.write(
+      `[DEBUG reloadConfig] Reloaded ${result.sources.join(', ')}: added [${result.added.join(', ')}], removed [${result.removed.join(', ')}], changed [${result.changed.join(', ')}], ${result.unchanged} unchanged\n`
+    );
+    for (const failure of result.failed) {
+      process.stderr.write(`[DEBUG reloadConfig] Failed to start ${failure}\n`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Reload the configuration whenever one of the config files changes. The directories are
+   * watched rather than the files, so editors that replace the file on save and config
+   * files created later are both noticed.
+   */
+  watchConfig(): void {
+    this.unwatchConfig();
 
-        // Start new server
-        const newServerState = await this.startServer(state.config);
-        this.servers.set(key, newServerState);
+    const namesByDirectory = new Map<string, Set<string>>();
+    for (const source of getConfigSources(this.configOptions)) {
+      const directory = dirname(source.path);
+      if (!existsSync(directory)) {
+        continue;
+      }
+      const names = namesByDirectory.get(directory) ?? new Set();
+      names.add(basename(source.path));
+      namesByDirectory.set(directory, names);
+    }
 
-        restarted.push(serverDesc);
-        process.stderr.write(`[DEBUG restartServers] Successfully restarted: ${serverDesc}\n`);
+    for (const [directory, names] of namesByDirectory) {
+      try {
+        const watcher = watch(directory, (_event, filename) => {
+          if (filename && names.has(filename.toString())) {
+            this.scheduleConfigReload();
+          }
+        });
+        this.configWatchers.push(watcher);
+        process.stderr.write(
+          `[DEBUG watchConfig] Watching ${[...names].map((name) => join(directory, name)).join(', ')}\n`
+        );
       } catch (error) {
-        failed.push(`${serverDesc}: ${error}`);
-        process.stderr.write(`[DEBUG restartServers] Failed to restart: ${serverDesc}: ${error}\n`);
+        process.stderr.write(`[DEBUG watchConfig] Failed to watch ${directory}: ${error}\n`);
       }
     }
+  }
 
-    const success = failed.length === 0;
-    let message: string;
-
-    if (success) {
-      message = `Successfully restarted ${restarted.length} LSP server(s)`;
-    } else if (restarted.length > 0) {
-      message = `Restarted ${restarted.length} server(s), but ${failed.length} failed`;
-    } else {
-      message = `Failed to restart all ${failed.length} server(s)`;
+  private unwatchConfig(): void {
+    if (this.configReloadTimer) {
+      clearTimeout(this.configReloadTimer);
+      this.configReloadTimer = undefined;
+    }
+    for (const watcher of this.configWatchers) {
+      watcher.close();
     }
+    this.configWatchers = [];
+  }
 
-    return { success, restarted, failed, message };
+  private scheduleConfigReload(): void {
+    if (this.configReloadTimer) {
+      clearTimeout(this.configReloadTimer);
+    }
+    this.configReloadTimer = setTimeout(() => {
+      this.configReloadTimer = undefined;
+      this.reloadConfig().catch((error) => {
+        process.stderr.write(
+          `[DEBUG watchConfig] Keeping the previous configuration: ${error instanceof Error ? error.message : error}\n`
+        );
+      });
+    }, CONFIG_RELOAD_DEBOUNCE_MS);
   }
 
   private async ensureFileOpen(serverState: ServerState, filePath: string): Promise<void> {
     if (serverState.openFiles.has(filePath)) {
-      process.stderr.write(`[DEBUG ensureFileOpen] File already open: ${filePath}\n`);
+      // Make sure the server sees the current content before answering any request
+      await this.syncDocument(serverState, filePath);
       return;
     }
 
@@ -584,6 +1511,7 @@ export class LSPClient {
 
     try {
       const fileContent = readFileSync(filePath, 'utf-8');
+      const stats = statSync(filePath);
       const uri = pathToUri(filePath);
       const languageId = this.getLanguageId(filePath);
 
@@ -601,6 +1529,12 @@ export class LSPClient {
       });
 
       serverState.openFiles.add(filePath);
+      serverState.documents.set(filePath, {
+        version: 1,
+        content: fileContent,
+        mtimeMs: stats.mtimeMs,
+        size: stats.size,
+      });
       process.stderr.write(`[DEBUG ensureFileOpen] File opened successfully: ${filePath}\n`);
     } catch (error) {
       process.stderr.write(`[DEBUG ensureFileOpen] Failed to open file ${filePath}: ${error}\n`);
@@ -608,6 +1542,118 @@ export class LSPClient {
     }
   }
 
+  /**
+   * Bring the server's view of an open document in line with the file on disk.
+   * The file is only re-read when its mtime or size changed, unless force is set
+   * (used right after cclsp itself wrote the file, where the mtime may not have moved).
+   */
+  private async syncDocument(
+    serverState: ServerState,
+    filePath: string,
+    force = false
+  ): Promise<void> {
+    const document = serverState.documents.get(filePath);
+    if (!document) {
+      return;
+    }
+
+    let stats: ReturnType<typeof statSync>;
+    try {
+      stats = statSync(filePath);
+    } catch (error) {
+      process.stderr.write(
+        `[DEBUG syncDocument] File no longer exists, closing document: ${filePath}\n`
+      );
+      await this.closeDocument(serverState, filePath);
+      return;
+    }
+
+    if (!force && stats.mtimeMs === document.mtimeMs && stats.size === document.size) {
+      return;
+    }
+
+    const content = readFileSync(filePath, 'utf-8');
+    document.mtimeMs = stats.mtimeMs;
+    document.size = stats.size;
+
+    if (content === document.content) {
+      return;
+    }
+
+    const syncKind = getChangeSyncKind(serverState.capabilities);
+    if (syncKind === TextDocumentSyncKind.None) {
+      document.content = content;
+      return;
+    }
+
+    const uri = pathToUri(filePath);
+    let contentChanges: TextDocumentContentChangeEvent[] = [{ text: content }];
+    if (syncKind === TextDocumentSyncKind.Incremental) {
+      // The range refers to the previous content, which is still the document's content here
+      const change = computeIncrementalChange(document.content, content);
+      contentChanges = change
+        ? [this.convertServerPositions(serverState, change, 'toServer', uri)]
+        : [];
+    }
+
+    document.version++;
+    document.content = content;
+
+    process.stderr.write(
+      `[DEBUG syncDocument] Sending ${syncKind === TextDocumentSyncKind.Incremental ? 'incremental' : 'full'} didChange for ${filePath} (version ${document.version})\n`
+    );
+
+    await this.sendNotification(serverState.process, 'textDocument/didChange', {
+      textDocument: { uri, version: document.version },
+      contentChanges,
+    });
+
+    // Cached diagnostics describe the old content, wait for the server to publish new ones
+    serverState.diagnostics.delete(uri);
+
+    const saveOptions = getSaveOptions(serverState.capabilities);
+    if (saveOptions.notify) {
+      await this.sendNotification(serverState.process, 'textDocument/didSave', {
+        textDocument: { uri },
+        ...(saveOptions.includeText ? { text: content } : {}),
+      });
+    }
+  }
+
+  private async closeDocument(serverState: ServerState, filePath: string): Promise<void> {
+    if (!serverState.openFiles.has(filePath)) {
+      return;
+    }
+
+    const uri = pathToUri(filePath);
+    await this.sendNotification(serverState.process, 'textDocument/didClose', {
+      textDocument: { uri },
+    });
+
+    serverState.openFiles.delete(filePath);
+    serverState.documents.delete(filePath);
+    serverState.diagnostics.delete(uri);
+  }
+
+  /**
+   * Re-sync the given files with every server that has them open.
+   * Call this after writing files to disk so servers never answer against stale content.
+   */
+  async syncOpenDocuments(filePaths: string[]): Promise<void> {
+    for (const serverState of this.servers.values()) {
+      for (const filePath of filePaths) {
+        if (!serverState.openFiles.has(filePath)) {
+          continue;
+        }
+        try {
+          await this.syncDocument(serverState, filePath, true);
+        } catch (error) {
+          process.stderr.write(`[DEBUG syncOpenDocuments] Failed to sync ${filePath}: ${error}\n`);
+        }
+      }
+    }
+  }
+
   private getLanguageId(filePath: string): string {
     const extension = filePath.split('.').pop()?.toLowerCase();
     const languageMap: Record<string, string> = {
@@ -673,23 +1719,103 @@ export class LSPClient {
       `[DEBUG getServer] Found server config: ${serverConfig.command.join(' ')}\n`
     );
 
-    const key = JSON.stringify(serverConfig);
+    return this.getServerForRoot(serverConfig, this.getProjectRoot(filePath, serverConfig));
+  }
+
+  /**
+   * Get the server instance for a config and project root, starting it if needed
+   */
+  private async getServerForRoot(
+    serverConfig: LSPServerConfig,
+    rootDir: string
+  ): Promise<ServerState> {
+    const key = this.serverKey(serverConfig, rootDir);
+
+    // Wait for a restart for the restart policy, instead of starting a second instance
+    await this.restarts.get(key);
+
+    // A crashed instance is being restarted: wait for it, or fail if we gave up on it
+    let crashRecord = this.crashes.get(key);
+    while (this.servers.get(key)?.exited && crashRecord?.restart) {
+      await crashRecord.restart;
+      crashRecord = this.crashes.get(key);
+    }
+    if (this.servers.get(key)?.exited) {
+      throw new Error(
+        `Language server ${this.getServerName(serverConfig)} in ${rootDir} crashed ${crashRecord?.recent.length ?? 0} times in a row (last: ${crashRecord?.lastReason}) and is not restarted automatically. Use restart_server to start it again.`
+      );
+    }
+
     if (!this.servers.has(key)) {
-      process.stderr.write('[DEBUG getServer] Starting new server instance\n');
-      const serverState = await this.startServer(serverConfig);
+      process.stderr.write(`[DEBUG getServer] Starting new server instance for ${rootDir}\n`);
+      // The instance outlives this tool call, so cancelling the call must not abort its startup
+      const serverState = await this.cancellation.exit(() =>
+        this.startServerUnlessDisposed(serverConfig, rootDir)
+      );
       this.servers.set(key, serverState);
       process.stderr.write('[DEBUG getServer] Server started and cached\n');
     } else {
-      process.stderr.write('[DEBUG getServer] Using existing server instance\n');
+      process.stderr.write(`[DEBUG getServer] Using existing server instance for ${rootDir}\n`);
     }
 
     const server = this.servers.get(key);
     if (!server) {
       throw new Error('Failed to get or create server');
     }
+    server.lastActivity = Date.now();
     return server;
   }
 
+  /**
+   * Get every server attached to a file: its primary server first, followed by the
+   * secondary servers configured for it
+   */
+  private async getServers(filePath: string): Promise<ServerState[]> {
+    const secondaryConfigs = selectSecondaryServers(this.config.servers, filePath).map(
+      (match) => match.config
+    );
+    if (secondaryConfigs.length === 0) {
+      return [await this.getServer(filePath)];
+    }
+
+    const servers = this.getServerForFile(filePath) ? [await this.getServer(filePath)] : [];
+    for (const serverConfig of secondaryConfigs) {
+      servers.push(
+        await this.getServerForRoot(serverConfig, this.getProjectRoot(filePath, serverConfig))
+      );
+    }
+
+    process.stderr.write(
+      `[DEBUG getServers] ${servers.length} servers attached to ${filePath}: ${servers.map((server) => this.getServerName(server.config)).join(', ')}\n`
+    );
+    return servers;
+  }
+
+  /**
+   * Label of a server in merged results
+   */
+  private getServerName(serverConfig: LSPServerConfig): string {
+    return serverConfig.name || serverConfig.command.join(' ');
+  }
+
+  /**
+   * Remember which server returned each of the given results
+   */
+  private trackOrigin<T extends object>(results: T[], serverState: ServerState): T[] {
+    for (const result of results) {
+      this.resultOrigins.set(result, serverState);
+    }
+    return results;
+  }
+
+  /**
+   * Get the name of the server that returned a diagnostic, code action or completion item
+   */
+  getResultSource(result: object): string | undefined {
+    const serverState = this.resultOrigins.get(result);
+    return serverState ? this.getServerName(serverState.config) : undefined;
+  }
+
   async findDefinition(filePath: string, position: Position): Promise<Location[]> {
     process.stderr.write(
       `[DEBUG findDefinition] Requesting definition for ${filePath} at ${position.line}:${position.character}\n`
@@ -791,13 +1917,246 @@ export class LSPClient {
     return [];
   }
 
+  /**
+   * Find the concrete implementations of an interface, abstract class or method
+   */
+  async findImplementations(filePath: string, position: Position): Promise<Location[]> {
+    const serverState = await this.getServer(filePath);
+    await serverState.initializationPromise;
+    await this.ensureFileOpen(serverState, filePath);
+
+    process.stderr.write(
+      `[DEBUG findImplementations] Requesting implementations for ${filePath} at ${position.line}:${position.character}\n`
+    );
+
+    const result = await this.sendRequest(serverState.process, 'textDocument/implementation', {
+      textDocument: { uri: pathToUri(filePath) },
+      position,
+    });
+
+    const locations = Array.isArray(result) ? result : result ? [result] : [];
+    return locations
+      .map((loc: LSPLocation | LocationLink) =>
+        'targetUri' in loc
+          ? { uri: loc.targetUri, range: loc.targetSelectionRange }
+          : { uri: loc.uri, range: loc.range }
+      )
+      .filter((loc) => loc.uri && loc.range);
+  }
+
+  /**
+   * Prepare call hierarchy items for the symbol at a position
+   */
+  async prepareCallHierarchy(filePath: string, position: Position): Promise<CallHierarchyItem[]> {
+    const serverState = await this.getServer(filePath);
+    await serverState.initializationPromise;
+    await this.ensureFileOpen(serverState, filePath);
+
+    process.stderr.write(
+      `[DEBUG prepareCallHierarchy] Preparing call hierarchy for ${filePath} at ${position.line}:${position.character}\n`
+    );
+
+    const result = await this.sendRequest(
+      serverState.process,
+      'textDocument/prepareCallHierarchy',
+      {
+        textDocument: { uri: pathToUri(filePath) },
+        position,
+      }
+    );
+
+    return Array.isArray(result) ? (result as CallHierarchyItem[]) : [];
+  }
+
+  /**
+   * Build the tree of incoming or outgoing calls for the symbol at a position, expanding
+   * `depth` levels. A call that leads back to a function already on the current branch is
+   * marked as a cycle and not expanded again.
+   */
+  async getCallHierarchy(
+    filePath: string,
+    position: Position,
+    direction: 'incoming' | 'outgoing',
+    depth = 1
+  ): Promise<CallHierarchyNode[]> {
+    const items = await this.prepareCallHierarchy(filePath, position);
+    if (items.length === 0) {
+      return [];
+    }
+
+    const serverState = await this.getServer(filePath);
+    const maxDepth = Math.min(Math.max(depth, 1), MAX_CALL_HIERARCHY_DEPTH);
+    const callCache = new Map<string, { item: CallHierarchyItem; fromRanges: Range[] }[]>();
+
+    const getCalls = async (item: CallHierarchyItem) => {
+      const key = this.hierarchyItemKey(item);
+      const cached = callCache.get(key);
+      if (cached) {
+        return cached;
+      }
+
+      let calls: { item: CallHierarchyItem; fromRanges: Range[] }[] = [];
+      try {
+        const result = await this.sendRequest(
+          serverState.process,
+          direction === 'incoming' ? 'callHierarchy/incomingCalls' : 'callHierarchy/outgoingCalls',
+          { item }
+        );
+        if (Array.isArray(result)) {
+          calls =
+            direction === 'incoming'
+              ? (result as CallHierarchyIncomingCall[]).map((call) => ({
+                  item: call.from,
+                  fromRanges: call.fromRanges,
+                }))
+              : (result as CallHierarchyOutgoingCall[]).map((call) => ({
+                  item: call.to,
+                  fromRanges: call.fromRanges,
+                }));
+        }
+      } catch (error) {
+        process.stderr.write(
+          `[DEBUG getCallHierarchy] Failed to get ${direction} calls for ${item.name}: ${error}\n`
+        );
+      }
+
+      callCache.set(key, calls);
+      return calls;
+    };
+
+    const expand = async (
+      item: CallHierarchyItem,
+      callRanges: Range[],
+      level: number,
+      ancestors: Set<string>
+    ): Promise<CallHierarchyNode> => {
+      const key = this.hierarchyItemKey(item);
+      if (ancestors.has(key)) {
+        return { item, callRanges, children: [], cycle: true };
+      }
+
+      const node: CallHierarchyNode = { item, callRanges, children: [] };
+      if (level < maxDepth) {
+        const branch = new Set(ancestors).add(key);
+        for (const call of await getCalls(item)) {
+          node.children.push(await expand(call.item, call.fromRanges, level + 1, branch));
+        }
+      }
+      return node;
+    };
+
+    const roots: CallHierarchyNode[] = [];
+    for (const item of items) {
+      roots.push(await expand(item, [], 0, new Set()));
+    }
+    return roots;
+  }
+
+  private hierarchyItemKey(item: CallHierarchyItem | TypeHierarchyItem): string {
+    const { start } = item.selectionRange;
+    return `${item.uri}:${start.line}:${start.character}`;
+  }
+
+  /**
+   * Build the supertype and subtype trees for a class, resolved by name from the document
+   * symbols the same way getClassMembers does. Each direction is expanded `depth` levels.
+   */
+  async getTypeHierarchy(
+    filePath: string,
+    className: string,
+    direction: 'supertypes' | 'subtypes' | 'both' = 'both',
+    depth = 3
+  ): Promise<TypeHierarchy[]> {
+    const position = await this.findClassPosition(filePath, className);
+    if (!position) {
+      process.stderr.write(
+        `[DEBUG getTypeHierarchy] Class "${className}" not found in ${filePath}\n`
+      );
+      return [];
+    }
+
+    const serverState = await this.getServer(filePath);
+    await serverState.initializationPromise;
+    await this.ensureFileOpen(serverState, filePath);
+
+    const prepared = await this.sendRequest(
+      serverState.process,
+      'textDocument/prepareTypeHierarchy',
+      {
+        textDocument: { uri: pathToUri(filePath) },
+        position,
+      }
+    );
+    const items = Array.isArray(prepared) ? (prepared as TypeHierarchyItem[]) : [];
+    const maxDepth = Math.min(Math.max(depth, 1), MAX_CALL_HIERARCHY_DEPTH);
+
+    const expand = async (
+      item: TypeHierarchyItem,
+      method: 'typeHierarchy/supertypes' | 'typeHierarchy/subtypes',
+      level: number,
+      ancestors: Set<string>
+    ): Promise<TypeHierarchyNode[]> => {
+      let related: TypeHierarchyItem[] = [];
+      try {
+        const result = await this.sendRequest(serverState.process, method, { item });
+        related = Array.isArray(result) ? (result as TypeHierarchyItem[]) : [];
+      } catch (error) {
+        process.stderr.write(
+          `[DEBUG getTypeHierarchy] ${method} failed for ${item.name}: ${error}\n`
+        );
+      }
+
+      const nodes: TypeHierarchyNode[] = [];
+      for (const relatedItem of related) {
+        const key = this.hierarchyItemKey(relatedItem);
+        if (ancestors.has(key)) {
+          nodes.push({ item: relatedItem, children: [], cycle: true });
+        } else if (level + 1 < maxDepth) {
+          const branch = new Set(ancestors).add(key);
+          nodes.push({
+            item: relatedItem,
+            children: await expand(relatedItem, method, level + 1, branch),
+          });
+        } else {
+          nodes.push({ item: relatedItem, children: [] });
+        }
+      }
+      return nodes;
+    };
+
+    const hierarchies: TypeHierarchy[] = [];
+    for (const item of items) {
+      const root = new Set([this.hierarchyItemKey(item)]);
+      hierarchies.push({
+        item,
+        supertypes:
+          direction === 'subtypes' ? [] : await expand(item, 'typeHierarchy/supertypes', 0, root),
+        subtypes:
+          direction === 'supertypes' ? [] : await expand(item, 'typeHierarchy/subtypes', 0, root),
+      });
+    }
+    return hierarchies;
+  }
+
+  /**
+   * Find the position of a class declaration by name, the same way getClassMembers resolves it
+   */
+  private async findClassPosition(filePath: string, className: string): Promise<Position | null> {
+    const symbols = await this.getDocumentSymbols(filePath);
+
+    if (this.isDocumentSymbolArray(symbols)) {
+      return this.findClassSymbol(symbols, className)?.selectionRange.start ?? null;
+    }
+
+    const classSymbol = symbols.find((s) => s.name === className && s.kind === SymbolKind.Class);
+    return classSymbol ? this.findSymbolPositionInFile(filePath, classSymbol) : null;
+  }
+
   async renameSymbol(
     filePath: string,
     position: Position,
     newName: string
-  ): Promise<{
-    changes?: Record<string, Array<{ range: { start: Position; end: Position }; newText: string }>>;
-  }> {
+  ): Promise<WorkspaceEdit> {
     process.stderr.write(
       `[DEBUG renameSymbol] Requesting rename for ${filePath} at ${position.line}:${position.character} to "${newName}"\n`
     );
@@ -817,19 +2176,21 @@ export class LSPClient {
       newName,
     });
 
+    const hasChanges = !!result && typeof result === 'object' && 'changes' in result;
+    const hasDocumentChanges =
+      !!result && typeof result === 'object' && 'documentChanges' in result;
+
     process.stderr.write(
-      `[DEBUG renameSymbol] Result type: ${typeof result}, hasChanges: ${result && typeof result === 'object' && 'changes' in result}\n`
+      `[DEBUG renameSymbol] Result type: ${typeof result}, hasChanges: ${hasChanges}, hasDocumentChanges: ${hasDocumentChanges}\n`
     );
 
-    if (result && typeof result === 'object' && 'changes' in result) {
-      const workspaceEdit = result as {
-        changes: Record<
-          string,
-          Array<{ range: { start: Position; end: Position }; newText: string }>
-        >;
-      };
+    if (hasChanges || hasDocumentChanges) {
+      const workspaceEdit = result as WorkspaceEdit;
+      this.resultOrigins.set(workspaceEdit, serverState);
 
-      const changeCount = Object.keys(workspaceEdit.changes || {}).length;
+      const changeCount =
+        Object.keys(workspaceEdit.changes || {}).length +
+        (workspaceEdit.documentChanges?.length || 0);
       process.stderr.write(
         `[DEBUG renameSymbol] WorkspaceEdit has changes for ${changeCount} files\n`
       );
@@ -1268,8 +2629,42 @@ export class LSPClient {
   async getDiagnostics(filePath: string): Promise<Diagnostic[]> {
     process.stderr.write(`[DEBUG getDiagnostics] Requesting diagnostics for ${filePath}\n`);
 
-    const serverState = await this.getServer(filePath);
+    const serverStates = await this.getServers(filePath);
+    const [primary] = serverStates;
+    if (serverStates.length === 1 && primary) {
+      return this.trackOrigin(await this.getServerDiagnostics(primary, filePath), primary);
+    }
+
+    // Query all attached servers and label each diagnostic with the server it came from
+    const results = await Promise.all(
+      serverStates.map(async (serverState) => {
+        const source = this.getServerName(serverState.config);
+        try {
+          const diagnostics = await this.getServerDiagnostics(serverState, filePath);
+          return this.trackOrigin(
+            diagnostics.map((diagnostic) => {
+              if (diagnostic.source) {
+                return diagnostic;
+              }
+              const labelled = { ...diagnostic, source };
+              this.originalDiagnostics.set(labelled, diagnostic);
+              return labelled;
+            }),
+            serverState
+          );
+        } catch (error) {
+          process.stderr.write(`[DEBUG getDiagnostics] Error from ${source}: ${error}\n`);
+          return [];
+        }
+      })
+    );
+    return results.flat();
+  }
 
+  private async getServerDiagnostics(
+    serverState: ServerState,
+    filePath: string
+  ): Promise<Diagnostic[]> {
     // Wait for the server to be fully initialized
     await serverState.initializationPromise;
 
@@ -1351,12 +2746,14 @@ export class LSPClient {
       try {
         // Get current file content
         const fileContent = readFileSync(filePath, 'utf-8');
+        const document = serverState.documents.get(filePath);
+        const nextVersion = () => (document ? ++document.version : Date.now());
 
         // Send a no-op change notification (add and remove a space at the end)
         await this.sendNotification(serverState.process, 'textDocument/didChange', {
           textDocument: {
             uri: fileUri,
-            version: Date.now(), // Use timestamp as version
+            version: nextVersion(),
           },
           contentChanges: [
             {
@@ -1369,7 +2766,7 @@ export class LSPClient {
         await this.sendNotification(serverState.process, 'textDocument/didChange', {
           textDocument: {
             uri: fileUri,
-            version: Date.now() + 1,
+            version: nextVersion(),
           },
           contentChanges: [
             {
@@ -1445,18 +2842,28 @@ export class LSPClient {
       }
     }
 
+    // Start one server instance per project root found for each config
+    const instancesToStart: Array<{ serverConfig: LSPServerConfig; rootDir: string }> = [];
+    for (const serverConfig of serversToStart) {
+      for (const rootDir of await this.discoverProjectRoots(serverConfig)) {
+        instancesToStart.push({ serverConfig, rootDir });
+      }
+    }
+
     if (debug) {
-      process.stderr.write(`Starting ${serversToStart.size} LSP servers...\n`);
+      process.stderr.write(`Starting ${instancesToStart.length} LSP servers...\n`);
     }
 
-    const startPromises = Array.from(serversToStart).map(async (serverConfig) => {
+    const startPromises = instancesToStart.map(async ({ serverConfig, rootDir }) => {
       try {
-        const key = JSON.stringify(serverConfig);
+        const key = this.serverKey(serverConfig, rootDir);
         if (!this.servers.has(key)) {
           if (debug) {
-            process.stderr.write(`Preloading LSP server: ${serverConfig.command.join(' ')}\n`);
+            process.stderr.write(
+              `Preloading LSP server: ${serverConfig.command.join(' ')} in ${rootDir}\n`
+            );
           }
-          const serverState = await this.startServer(serverConfig);
+          const serverState = await this.startServerUnlessDisposed(serverConfig, rootDir);
           this.servers.set(key, serverState);
           await serverState.initializationPromise;
 
@@ -1467,10 +2874,7 @@ export class LSPClient {
                 `Server for ${serverConfig.extensions.join(',')} needs workspace context during preload\n`
               );
             }
-            const foundFile = await this.findFileInDirectory(
-              serverConfig.rootDir || process.cwd(),
-              serverConfig.extensions
-            );
+            const foundFile = await this.findFileInDirectory(rootDir, serverConfig.extensions);
             if (foundFile) {
               await this.ensureFileOpen(serverState, foundFile);
               if (debug) {
@@ -1483,7 +2887,7 @@ export class LSPClient {
           await this.waitForWorkspaceIndexing(serverState);
           if (debug) {
             process.stderr.write(
-              `Successfully preloaded LSP server for extensions: ${serverConfig.extensions.join(', ')}\n`
+              `Successfully preloaded LSP server for extensions: ${serverConfig.extensions.join(', ')} in ${rootDir}\n`
             );
           }
         }
@@ -1902,6 +3306,7 @@ export class LSPClient {
   async getHover(filePath: string, position: Position): Promise<Hover | null> {
     const serverState = await this.getServer(filePath);
     await serverState.initializationPromise;
+    await this.ensureFileOpen(serverState, filePath);
 
     try {
       const result = await this.sendRequest(serverState.process, 'textDocument/hover', {
@@ -1999,11 +3404,31 @@ export class LSPClient {
     );
 
     const positions = this.generateMultiPositions(position);
+    const serverStates = await this.getServers(filePath);
 
     for (const pos of positions) {
       try {
-        const result = await this.getCompletionAtPosition(filePath, pos, triggerCharacter);
-        if (result && result.length > 0) {
+        // Merge the completions of all servers attached to the file
+        const results = await Promise.all(
+          serverStates.map(async (serverState) => {
+            try {
+              const items = await this.getCompletionAtPosition(
+                serverState,
+                filePath,
+                pos,
+                triggerCharacter
+              );
+              return this.trackOrigin(items, serverState);
+            } catch (error) {
+              process.stderr.write(
+                `[DEBUG getCompletion] Error from ${this.getServerName(serverState.config)}: ${error}\n`
+              );
+              return [];
+            }
+          })
+        );
+        const result = results.flat();
+        if (result.length > 0) {
           process.stderr.write(
             `[DEBUG getCompletion] Found ${result.length} completions at position ${pos.line}:${pos.character}\n`
           );
@@ -2028,12 +3453,14 @@ export class LSPClient {
    */
   async resolveCompletionItem(filePath: string, item: CompletionItem): Promise<CompletionItem> {
     try {
-      const serverState = await this.getServer(filePath);
+      // Resolve with the server that returned the item
+      const serverState = this.resultOrigins.get(item) || (await this.getServer(filePath));
       await serverState.initializationPromise;
 
       const result = await this.sendRequest(serverState.process, 'completionItem/resolve', item);
 
       if (result && typeof result === 'object') {
+        this.resultOrigins.set(result, serverState);
         return result as CompletionItem;
       }
 
@@ -2051,11 +3478,11 @@ export class LSPClient {
    * Helper method to get completions at a specific position
    */
   private async getCompletionAtPosition(
+    serverState: ServerState,
     filePath: string,
     position: Position,
     triggerCharacter?: string
   ): Promise<CompletionItem[]> {
-    const serverState = await this.getServer(filePath);
     await serverState.initializationPromise;
     await this.ensureFileOpen(serverState, filePath);
 
@@ -2197,7 +3624,36 @@ export class LSPClient {
     return undefined;
   }
 
-  private async getTypeDefinition(filePath: string, position: Position): Promise<Location[]> {
+  /**
+   * Find the declaration of the type of the symbol at a position given by the caller, trying
+   * nearby positions when it does not resolve in case it was off by one. Use
+   * `getTypeDefinition` for positions resolved from document symbols.
+   */
+  async findTypeDefinition(filePath: string, position: Position): Promise<Location[]> {
+    process.stderr.write(
+      `[DEBUG findTypeDefinition] Finding type definition for ${filePath} at ${position.line}:${position.character}\n`
+    );
+
+    const positions = this.generateMultiPositions(position);
+
+    for (const pos of positions) {
+      const result = await this.getTypeDefinition(filePath, pos);
+      if (result.length > 0) {
+        process.stderr.write(
+          `[DEBUG findTypeDefinition] Found ${result.length} type definitions at position ${pos.line}:${pos.character}\n`
+        );
+        return result;
+      }
+    }
+
+    process.stderr.write('[DEBUG findTypeDefinition] No type definition found at any position\n');
+    return [];
+  }
+
+  /**
+   * Get the declaration of the type of the symbol at an exact position
+   */
+  async getTypeDefinition(filePath: string, position: Position): Promise<Location[]> {
     const serverState = await this.getServer(filePath);
     await serverState.initializationPromise;
     await this.ensureFileOpen(serverState, filePath);
@@ -2208,21 +3664,14 @@ export class LSPClient {
         position: position,
       });
 
-      if (Array.isArray(result)) {
-        return result.map((loc: LSPLocation) => ({
-          uri: loc.uri,
-          range: loc.range,
-        }));
-      }
-      if (result && typeof result === 'object' && 'uri' in result) {
-        const location = result as LSPLocation;
-        return [
-          {
-            uri: location.uri,
-            range: location.range,
-          },
-        ];
-      }
+      const locations = Array.isArray(result) ? result : result ? [result] : [];
+      return locations
+        .map((loc: LSPLocation | LocationLink) =>
+          'targetUri' in loc
+            ? { uri: loc.targetUri, range: loc.targetSelectionRange }
+            : { uri: loc.uri, range: loc.range }
+        )
+        .filter((loc) => loc.uri && loc.range);
     } catch (error) {
       process.stderr.write(`[DEBUG getTypeDefinition] Error getting type definition: ${error}\n`);
     }
@@ -2300,12 +3749,14 @@ export class LSPClient {
   }
 
   /**
-   * Apply text edits to file content and optionally write to file
+   * Apply text edits to file content and optionally write to file.
+   * Written changes are recorded in the edit journal under the given description.
    */
   async applyTextEdits(
     filePath: string,
     textEdits: TextEdit[],
-    applyToFile = false
+    applyToFile = false,
+    description = `Edit ${filePath}`
   ): Promise<{ content: string; summary: string[] }> {
     process.stderr.write(
       `[DEBUG applyTextEdits] Applying ${textEdits.length} edits to ${filePath}\n`
@@ -2319,81 +3770,7 @@ export class LSPClient {
       throw new Error(`Failed to read file ${filePath}: ${error}`);
     }
 
-    // Sort edits by position (reverse order to apply from end to beginning)
-    const sortedEdits = [...textEdits].sort((a, b) => {
-      if (a.range.start.line !== b.range.start.line) {
-        return b.range.start.line - a.range.start.line;
-      }
-      return b.range.start.character - a.range.start.character;
-    });
-
-    const lines = content.split('\n');
-    const summary: string[] = [];
-
-    // Apply edits in reverse order to preserve line/character positions
-    for (const edit of sortedEdits) {
-      const { start, end } = edit.range;
-      const newText = edit.newText;
-
-      // Validate range
-      if (start.line < 0 || start.line >= lines.length || end.line < 0 || end.line > lines.length) {
-        process.stderr.write(
-          `[DEBUG applyTextEdits] Skipping invalid range: ${start.line}:${start.character}-${end.line}:${end.character}\n`
-        );
-        continue;
-      }
-
-      // Create summary of changes
-      if (start.line === end.line) {
-        const line = lines[start.line];
-        if (line !== undefined) {
-          const originalText = line.substring(start.character, end.character);
-          if (originalText !== newText) {
-            if (originalText.trim() === '' && newText.trim() !== '') {
-              summary.push(`• Line ${start.line + 1}: Added content`);
-            } else if (originalText.trim() !== '' && newText.trim() === '') {
-              summary.push(`• Line ${start.line + 1}: Removed content`);
-            } else if (originalText.match(/^\s+$/) && newText.match(/^\s+$/)) {
-              summary.push(`• Line ${start.line + 1}: Adjusted indentation`);
-            } else {
-              summary.push(`• Line ${start.line + 1}: Modified content`);
-            }
-          }
-        }
-      } else {
-        summary.push(`• Lines ${start.line + 1}-${end.line + 1}: Multi-line edit`);
-      }
-
-      // Apply the edit
-      if (start.line === end.line) {
-        // Single line edit
-        const line = lines[start.line];
-        if (line !== undefined) {
-          lines[start.line] =
-            line.substring(0, start.character) + newText + line.substring(end.character);
-        }
-      } else {
-        // Multi-line edit
-        const startLineContent = lines[start.line];
-        const endLineContent = lines[end.line];
-        if (startLineContent !== undefined && endLineContent !== undefined) {
-          const startLine = startLineContent.substring(0, start.character);
-          const endLine = endLineContent.substring(end.character);
-          const newLines = newText.split('\n');
-
-          // Replace the range with new content
-          lines.splice(
-            start.line,
-            end.line - start.line + 1,
-            startLine + newLines[0],
-            ...newLines.slice(1, -1),
-            newLines[newLines.length - 1] + endLine
-          );
-        }
-      }
-    }
-
-    const formattedContent = lines.join('\n');
+    const { content: formattedContent, summary } = applyTextEditsToContent(content, textEdits);
 
     // Write to file if requested
     if (applyToFile) {
@@ -2401,6 +3778,12 @@ export class LSPClient {
         process.stderr.write(`[DEBUG applyTextEdits] Writing formatted content to ${filePath}\n`);
         require('node:fs').writeFileSync(filePath, formattedContent, 'utf-8');
         summary.push(`File ${filePath} has been updated`);
+        if (formattedContent !== content) {
+          this.recordEdit(description, [
+            { path: filePath, before: { content }, after: { content: formattedContent } },
+          ]);
+        }
+        await this.syncOpenDocuments([filePath]);
       } catch (error) {
         throw new Error(`Failed to write formatted content to ${filePath}: ${error}`);
       }
@@ -2654,49 +4037,46 @@ export class LSPClient {
       `[DEBUG ensureAllServersReady] Starting ${this.config.servers.length} configured servers\n`
     );
 
-    for (const serverConfig of this.config.servers) {
-      try {
-        // Create a dummy file path to trigger server creation
-        const dummyFilePath = join(
-          serverConfig.rootDir || process.cwd(),
-          `dummy.${serverConfig.extensions[0]}`
-        );
-        const serverState = await this.getServer(dummyFilePath);
-        await serverState.initializationPromise;
+    // Secondary servers only complement the primary server of a file
+    for (const serverConfig of this.config.servers.filter((config) => !config.secondary)) {
+      // Monorepos get one server instance per project root
+      const rootDirs = await this.discoverProjectRoots(serverConfig);
 
-        // Ensure workspace context by opening a file if none are open
-        if (serverState.openFiles.size === 0) {
-          process.stderr.write(
-            `[DEBUG ensureAllServersReady] Server for ${serverConfig.extensions.join(',')} needs workspace context\n`
-          );
-          const foundFile = await this.findFileInDirectory(
-            serverConfig.rootDir || process.cwd(),
-            serverConfig.extensions
-          );
-          if (foundFile) {
-            process.stderr.write(
-              `[DEBUG ensureAllServersReady] Opening ${foundFile} for workspace context\n`
-            );
-            await this.ensureFileOpen(serverState, foundFile);
+      for (const rootDir of rootDirs) {
+        try {
+          const serverState = await this.getServerForRoot(serverConfig, rootDir);
+          await serverState.initializationPromise;
+
+          // Ensure workspace context by opening a file if none are open
+          if (serverState.openFiles.size === 0) {
             process.stderr.write(
-              `[DEBUG ensureAllServersReady] Opened ${foundFile} for workspace context\n`
+              `[DEBUG ensureAllServersReady] Server for ${serverConfig.extensions.join(',')} in ${rootDir} needs workspace context\n`
             );
+            const foundFile = await this.findFileInDirectory(rootDir, serverConfig.extensions);
+            if (foundFile) {
+              process.stderr.write(
+                `[DEBUG ensureAllServersReady] Opening ${foundFile} for workspace context\n`
+              );
+              await this.ensureFileOpen(serverState, foundFile);
+              process.stderr.write(
+                `[DEBUG ensureAllServersReady] Opened ${foundFile} for workspace context\n`
+              );
+            }
           }
-        }
 
-        // Wait for workspace indexing
-        await this.waitForWorkspaceIndexing(serverState);
+          // Wait for workspace indexing
+          await this.waitForWorkspaceIndexing(serverState);
 
-        const serverKey = JSON.stringify(serverConfig);
-        readyServers.push([serverKey, serverState]);
+          readyServers.push([this.serverKey(serverConfig, rootDir), serverState]);
 
-        process.stderr.write(
-          `[DEBUG ensureAllServersReady] Server for ${serverConfig.extensions.join(',')} is ready\n`
-        );
-      } catch (error) {
-        process.stderr.write(
-          `[DEBUG ensureAllServersReady] Failed to start server for ${serverConfig.extensions.join(',')}: ${error}\n`
-        );
+          process.stderr.write(
+            `[DEBUG ensureAllServersReady] Server for ${serverConfig.extensions.join(',')} in ${rootDir} is ready\n`
+          );
+        } catch (error) {
+          process.stderr.write(
+            `[DEBUG ensureAllServersReady] Failed to start server for ${serverConfig.extensions.join(',')} in ${rootDir}: ${error}\n`
+          );
+        }
       }
     }
 
@@ -2706,6 +4086,22 @@ export class LSPClient {
     return readyServers;
   }
 
+  /**
+   * Drop symbols reported by more than one server, e.g. when project roots are nested
+   */
+  private dedupeWorkspaceSymbols(symbols: SymbolInformation[]): SymbolInformation[] {
+    const seen = new Set<string>();
+    return symbols.filter((symbol) => {
+      const start = symbol.location.range?.start;
+      const key = `${symbol.location.uri}:${start?.line}:${start?.character}:${symbol.name}`;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
   async findTypeInWorkspace(
     typeName: string,
     typeKind?: string,
@@ -2842,7 +4238,7 @@ export class LSPClient {
       }
 
       // Filter results from all servers
-      const filteredSymbols = allSymbols.filter((symbol) => {
+      const filteredSymbols = this.dedupeWorkspaceSymbols(allSymbols).filter((symbol) => {
         // First apply wildcard filter if needed
         if (isWildcardPattern && regexPattern) {
           if (!regexPattern.test(symbol.name)) {
@@ -3072,7 +4468,7 @@ export class LSPClient {
 
   private async waitForWorkspaceIndexing(
     serverState: ServerState,
-    maxWaitMs = 15000
+    maxWaitMs = this.getTimeouts(serverState.config).indexing ?? DEFAULT_INDEXING_TIMEOUT_MS
   ): Promise<void> {
     const startTime = Date.now();
 
@@ -3119,14 +4515,38 @@ export class LSPClient {
     context?: CodeActionContext
   ): Promise<(CodeAction | Command)[]> {
     process.stderr.write(`[DEBUG getCodeActions] Requesting code actions for ${filePath}\n`);
-    const serverState = await this.getServer(filePath);
+    const serverStates = await this.getServers(filePath);
+
+    const results = await Promise.all(
+      serverStates.map((serverState) =>
+        this.getServerCodeActions(serverState, filePath, range, context)
+      )
+    );
+    return results.flat();
+  }
+
+  private async getServerCodeActions(
+    serverState: ServerState,
+    filePath: string,
+    range: Range,
+    context?: CodeActionContext
+  ): Promise<(CodeAction | Command)[]> {
     await this.ensureFileOpen(serverState, filePath);
 
+    // Each server only gets to see the diagnostics it reported itself, without our label,
+    // since servers match code actions against their own diagnostics
+    const diagnostics = (context?.diagnostics || [])
+      .filter((diagnostic) => {
+        const origin = this.resultOrigins.get(diagnostic);
+        return !origin || origin === serverState;
+      })
+      .map((diagnostic) => this.originalDiagnostics.get(diagnostic) ?? diagnostic);
+
     const uri = pathToUri(filePath);
     const params = {
       textDocument: { uri },
       range,
-      context: context || { diagnostics: [] },
+      context: context ? { ...context, diagnostics } : { diagnostics: [] },
     };
 
     try {
@@ -3134,7 +4554,18 @@ export class LSPClient {
 
       if (Array.isArray(result)) {
         process.stderr.write(`[DEBUG getCodeActions] Found ${result.length} code actions\n`);
-        return result as (CodeAction | Command)[];
+        const actions = result as (CodeAction | Command)[];
+        // Commands must be executed by the server that offered them, and edits are checked
+        // against its document versions
+        for (const action of actions) {
+          if ('command' in action && action.command && typeof action.command === 'object') {
+            this.resultOrigins.set(action.command, serverState);
+          }
+          if ('edit' in action && action.edit) {
+            this.resultOrigins.set(action.edit, serverState);
+          }
+        }
+        return this.trackOrigin(actions, serverState);
       }
 
       process.stderr.write('[DEBUG getCodeActions] No code actions found\n');
@@ -3148,9 +4579,8 @@ export class LSPClient {
   async executeCommand(command: Command): Promise<unknown> {
     process.stderr.write(`[DEBUG executeCommand] Executing command: ${command.command}\n`);
 
-    // Find a server that can handle the command
-    // For now, use the first available server
-    const serverState = Array.from(this.servers.values())[0];
+    // Prefer the server that offered the command, otherwise use the first available server
+    const serverState = this.resultOrigins.get(command) || Array.from(this.servers.values())[0];
     if (!serverState) {
       throw new Error('No LSP server available to execute command');
     }
@@ -3175,18 +4605,37 @@ export class LSPClient {
     }
   }
 
-  async applyWorkspaceEdit(edit: WorkspaceEdit): Promise<{ content: string }> {
+  /**
+   * Apply a workspace edit as a single transaction. Every change is staged in memory and
+   * checked against the open document versions before anything is written; if a write fails,
+   * the files already written are restored so the workspace is never left half-edited.
+   * Applied edits are recorded in the edit journal under the given description.
+   */
+  async applyWorkspaceEdit(
+    edit: WorkspaceEdit,
+    description = 'Workspace edit'
+  ): Promise<{ content: string; touchedFiles: string[] }> {
     process.stderr.write('[DEBUG applyWorkspaceEdit] Applying workspace edit\n');
 
+    const transaction = new WorkspaceEditTransaction();
     const changes: string[] = [];
+    const fileOperations: (CreateFile | RenameFile | DeleteFile)[] = [];
+    const origin = this.resultOrigins.get(edit);
 
     try {
-      // Handle changes object (legacy format)
-      if (edit.changes) {
+      // Bring open documents up to date so their versions can be compared with the edit
+      const versionedPaths = (edit.documentChanges || [])
+        .filter((change) => 'textDocument' in change && change.textDocument.version !== null)
+        .map((change) => uriToPath((change as TextDocumentEdit).textDocument.uri));
+      if (versionedPaths.length > 0) {
+        await this.syncOpenDocuments(versionedPaths);
+      }
+
+      // Handle changes object (legacy format). Per the LSP spec, documentChanges
+      // takes precedence when a server sends both forms.
+      if (edit.changes && !edit.documentChanges) {
         for (const [uri, textEdits] of Object.entries(edit.changes)) {
-          const filePath = uriToPath(uri);
-          const result = await this.applyTextEdits(filePath, textEdits, true);
-          changes.push(`Modified ${filePath}: ${result.summary.join('; ')}`);
+          changes.push(await this.stageTextEdits(transaction, uriToPath(uri), textEdits));
         }
       }
 
@@ -3196,27 +4645,336 @@ export class LSPClient {
           if ('textDocument' in change) {
             // TextDocumentEdit
             const filePath = uriToPath(change.textDocument.uri);
-            const result = await this.applyTextEdits(filePath, change.edits as TextEdit[], true);
-            changes.push(`Modified ${filePath}: ${result.summary.join('; ')}`);
+            this.checkDocumentVersion(filePath, change.textDocument.version, origin);
+            changes.push(
+              await this.stageTextEdits(transaction, filePath, change.edits as TextEdit[])
+            );
           } else if (change.kind === 'create') {
-            // CreateFile
-            changes.push(`Would create file: ${uriToPath(change.uri)}`);
+            changes.push(await this.stageCreateFile(transaction, change, fileOperations));
           } else if (change.kind === 'rename') {
-            // RenameFile
-            changes.push(`Would rename ${uriToPath(change.oldUri)} to ${uriToPath(change.newUri)}`);
+            changes.push(await this.stageRenameFile(transaction, change, fileOperations));
           } else if (change.kind === 'delete') {
-            // DeleteFile
-            changes.push(`Would delete file: ${uriToPath(change.uri)}`);
+            changes.push(await this.stageDeleteFile(transaction, change, fileOperations));
           }
         }
       }
 
-      return {
-        content: changes.length > 0 ? changes.join('\n') : 'No changes applied',
-      };
+      await transaction.commit();
     } catch (error) {
       process.stderr.write(`[DEBUG applyWorkspaceEdit] Error: ${error}\n`);
-      throw error;
+      throw new Error(
+        `Workspace edit was not applied: ${error instanceof Error ? error.message : error}`
+      );
+    }
+
+    const touchedFiles = transaction.touchedFiles;
+    if (touchedFiles.length > 0) {
+      this.recordEdit(description, transaction.changes);
+    }
+    await this.finishFileOperations(fileOperations, touchedFiles);
+
+    let content = changes.length > 0 ? changes.join('\n') : 'No changes applied';
+    if (touchedFiles.length > 0) {
+      content += `\n\nFiles touched (${touchedFiles.length}):\n${touchedFiles.map((filePath) => `  ${filePath}`).join('\n')}`;
+    }
+
+    return { content, touchedFiles };
+  }
+
+  private recordEdit(description: string, files: FileChange[]): void {
+    this.editJournal.push({
+      id: this.nextEditId++,
+      description,
+      timestamp: new Date(),
+      files,
+    });
+    if (this.editJournal.length > MAX_EDIT_HISTORY) {
+      this.editJournal.shift();
+    }
+  }
+
+  /**
+   * Get the edits made in this session, most recent first
+   */
+  getEditHistory(): EditJournalEntry[] {
+    return [...this.editJournal].reverse();
+  }
+
+  /**
+   * Restore the files changed by a journaled edit to their previous content.
+   * Defaults to the most recent edit. Refuses to undo when one of the files was
+   * changed again afterwards, so later work is never silently overwritten.
+   */
+  async undoEdit(id?: number): Promise<EditJournalEntry> {
+    const entry =
+      id === undefined
+        ? this.editJournal[this.editJournal.length - 1]
+        : this.editJournal.find((journalEntry) => journalEntry.id === id);
+    if (!entry) {
+      throw new Error(
+        id === undefined ? 'No edits to undo' : `Edit #${id} is not in the edit history`
+      );
+    }
+
+    process.stderr.write(`[DEBUG undoEdit] Undoing edit #${entry.id}: ${entry.description}\n`);
+
+    const transaction = new WorkspaceEditTransaction();
+    const conflicts: string[] = [];
+    for (const file of entry.files) {
+      if (!isSameFile(await transaction.readFile(file.path), file.after)) {
+        conflicts.push(file.path);
+      }
+    }
+    if (conflicts.length > 0) {
+      throw new Error(
+        `Cannot undo edit #${entry.id}, these files were changed afterwards: ${conflicts.join(', ')}`
+      );
+    }
+
+    for (const file of entry.files) {
+      if (file.before) {
+        await transaction.writeFile(file.path, file.before);
+      } else {
+        await transaction.deleteFile(file.path);
+      }
+    }
+    await transaction.commit();
+
+    this.editJournal.splice(this.editJournal.indexOf(entry), 1);
+    await this.syncOpenDocuments(entry.files.map((file) => file.path));
+
+    return entry;
+  }
+
+  /**
+   * Reject edits that were computed against a different version of an open document.
+   * Every server counts versions on its own, so an edit is compared with the version of
+   * the server that produced it, or with any server when its origin is unknown.
+   */
+  private checkDocumentVersion(
+    filePath: string,
+    version: number | null,
+    origin: ServerState | undefined
+  ): void {
+    if (version === null) {
+      return;
+    }
+
+    const openVersions: number[] = [];
+    for (const serverState of origin ? [origin] : this.servers.values()) {
+      const document = serverState.documents.get(filePath);
+      if (document) {
+        openVersions.push(document.version);
+      }
+    }
+
+    if (openVersions.length > 0 && !openVersions.includes(version)) {
+      throw new Error(
+        `${filePath} has changed since the edit was computed (edit is for version ${version}, document is at version ${openVersions.join(', ')})`
+      );
+    }
+  }
+
+  private async stageTextEdits(
+    transaction: WorkspaceEditTransaction,
+    filePath: string,
+    textEdits: TextEdit[]
+  ): Promise<string> {
+    const file = await transaction.readFile(filePath);
+    if (!file) {
+      throw new Error(`Cannot edit ${filePath}: file does not exist`);
+    }
+
+    const text = typeof file.content === 'string' ? file.content : file.content.toString('utf-8');
+    const { content, summary } = applyTextEditsToContent(text, textEdits);
+    await transaction.writeFile(filePath, { content, mode: file.mode });
+
+    return `Modified ${filePath}: ${summary.length > 0 ? summary.join('; ') : 'No changes'}`;
+  }
+
+  /**
+   * Stage a CreateFile resource operation. `overwrite` wins over `ignoreIfExists`.
+   */
+  private async stageCreateFile(
+    transaction: WorkspaceEditTransaction,
+    change: CreateFile,
+    fileOperations: (CreateFile | RenameFile | DeleteFile)[]
+  ): Promise<string> {
+    const filePath = uriToPath(change.uri);
+    const kind = await transaction.getKind(filePath);
+
+    if (kind) {
+      if (!change.options?.overwrite) {
+        if (change.options?.ignoreIfExists) {
+          return `Skipped creating ${filePath}: file already exists`;
+        }
+        throw new Error(`Cannot create ${filePath}: file already exists`);
+      }
+      if (kind === 'directory') {
+        await transaction.deleteDirectory(filePath);
+      }
+    }
+
+    await transaction.writeFile(filePath, { content: '' });
+    fileOperations.push(change);
+
+    return kind ? `Overwrote file: ${filePath}` : `Created file: ${filePath}`;
+  }
+
+  /**
+   * Stage a RenameFile resource operation. `overwrite` wins over `ignoreIfExists`.
+   * Renaming a directory moves every file below it.
+   */
+  private async stageRenameFile(
+    transaction: WorkspaceEditTransaction,
+    change: RenameFile,
+    fileOperations: (CreateFile | RenameFile | DeleteFile)[]
+  ): Promise<string> {
+    const oldPath = uriToPath(change.oldUri);
+    const newPath = uriToPath(change.newUri);
+
+    const sourceKind = await transaction.getKind(oldPath);
+    if (!sourceKind) {
+      throw new Error(`Cannot rename ${oldPath}: file does not exist`);
+    }
+
+    const targetKind = await transaction.getKind(newPath);
+    if (targetKind) {
+      if (change.options?.ignoreIfExists && !change.options?.overwrite) {
+        return `Skipped renaming ${oldPath}: ${newPath} already exists`;
+      }
+      if (!change.options?.overwrite) {
+        throw new Error(`Cannot rename ${oldPath} to ${newPath}: target already exists`);
+      }
+      if (targetKind === 'directory') {
+        await transaction.deleteDirectory(newPath);
+      } else {
+        await transaction.deleteFile(newPath);
+      }
+    }
+
+    if (sourceKind === 'directory') {
+      await transaction.moveDirectory(oldPath, newPath);
+    } else {
+      await transaction.moveFile(oldPath, newPath);
+    }
+    fileOperations.push(change);
+
+    return `Renamed ${oldPath} to ${newPath}`;
+  }
+
+  /**
+   * Stage a DeleteFile resource operation. Directories need the `recursive` option.
+   */
+  private async stageDeleteFile(
+    transaction: WorkspaceEditTransaction,
+    change: DeleteFile,
+    fileOperations: (CreateFile | RenameFile | DeleteFile)[]
+  ): Promise<string> {
+    const filePath = uriToPath(change.uri);
+    const kind = await transaction.getKind(filePath);
+
+    if (!kind) {
+      if (change.options?.ignoreIfNotExists) {
+        return `Skipped deleting ${filePath}: file does not exist`;
+      }
+      throw new Error(`Cannot delete ${filePath}: file does not exist`);
+    }
+
+    if (kind === 'directory') {
+      if (!change.options?.recursive) {
+        throw new Error(`Cannot delete directory ${filePath} without the recursive option`);
+      }
+      await transaction.deleteDirectory(filePath);
+    } else {
+      await transaction.deleteFile(filePath);
+    }
+    fileOperations.push(change);
+
+    return `Deleted ${kind}: ${filePath}`;
+  }
+
+  /**
+   * Bring open documents in line with a committed workspace edit and tell the servers
+   * about the files that were created, renamed or deleted
+   */
+  private async finishFileOperations(
+    fileOperations: (CreateFile | RenameFile | DeleteFile)[],
+    touchedFiles: string[]
+  ): Promise<void> {
+    // Documents open under a renamed path (or inside a renamed directory) move along with it
+    const movedDocuments: { serverState: ServerState; filePath: string }[] = [];
+    for (const operation of fileOperations) {
+      if (operation.kind !== 'rename') {
+        continue;
+      }
+      const oldPath = uriToPath(operation.oldUri);
+      const newPath = uriToPath(operation.newUri);
+      for (const serverState of this.servers.values()) {
+        for (const openPath of serverState.openFiles) {
+          if (openPath === oldPath || openPath.startsWith(oldPath + sep)) {
+            movedDocuments.push({
+              serverState,
+              filePath: newPath + openPath.substring(oldPath.length),
+            });
+          }
+        }
+      }
+    }
+
+    // Re-sync edited documents, documents whose file is gone get closed
+    if (touchedFiles.length > 0) {
+      await this.syncOpenDocuments(touchedFiles);
+    }
+
+    for (const { serverState, filePath } of movedDocuments) {
+      const extension = filePath.split('.').pop() || '';
+      if (serverState.config.extensions.includes(extension)) {
+        await this.ensureFileOpen(serverState, filePath);
+      }
+    }
+
+    const created = fileOperations.filter((operation) => operation.kind === 'create');
+    const renamed = fileOperations.filter((operation) => operation.kind === 'rename');
+    const deleted = fileOperations.filter((operation) => operation.kind === 'delete');
+
+    if (created.length > 0) {
+      await this.notifyFileOperation('didCreate', 'workspace/didCreateFiles', {
+        files: created.map((operation) => ({ uri: operation.uri })),
+      });
+    }
+    if (renamed.length > 0) {
+      await this.notifyFileOperation('didRename', 'workspace/didRenameFiles', {
+        files: renamed.map((operation) => ({
+          oldUri: operation.oldUri,
+          newUri: operation.newUri,
+        })),
+      });
+    }
+    if (deleted.length > 0) {
+      await this.notifyFileOperation('didDelete', 'workspace/didDeleteFiles', {
+        files: deleted.map((operation) => ({ uri: operation.uri })),
+      });
+    }
+  }
+
+  /**
+   * Tell every running server that registered interest in a file operation about it
+   */
+  private async notifyFileOperation(
+    operation: 'didCreate' | 'didRename' | 'didDelete',
+    method: string,
+    params: unknown
+  ): Promise<void> {
+    for (const serverState of this.servers.values()) {
+      if (!serverState.capabilities?.workspace?.fileOperations?.[operation]) {
+        continue;
+      }
+      try {
+        await this.sendNotification(serverState.process, method, params);
+      } catch (error) {
+        process.stderr.write(`[DEBUG notifyFileOperation] Failed to send ${method}: ${error}\n`);
+      }
     }
   }
 
@@ -3265,7 +5023,7 @@ export class LSPClient {
       `[DEBUG getWorkspaceSymbols] Found ${allSymbols.length} total symbols across ${availableServers.length} servers\n`
     );
 
-    return allSymbols;
+    return this.dedupeWorkspaceSymbols(allSymbols);
   }
 
   async getAllDiagnostics(
@@ -3453,9 +5211,26 @@ export class LSPClient {
       return null;
     }
 
-    const serverKey = JSON.stringify(serverConfig);
-    const serverState = this.servers.get(serverKey);
-    return serverState?.capabilities || null;
+    // Any running instance of the config will do, whichever project root it serves
+    for (const serverState of this.servers.values()) {
+      if (serverState.config === serverConfig && serverState.capabilities) {
+        return serverState.capabilities;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get the capabilities of the server instance handling a file, if it has been started
+   */
+  getServerCapabilitiesForFile(filePath: string): ServerCapabilities | null {
+    const serverConfig = this.getServerForFile(filePath);
+    if (!serverConfig) {
+      return null;
+    }
+
+    const rootDir = this.getProjectRoot(filePath, serverConfig);
+    return this.servers.get(this.serverKey(serverConfig, rootDir))?.capabilities || null;
   }
 
   /**
@@ -3691,14 +5466,24 @@ export class LSPClient {
     return this.getServerForFile(`dummy.${extension}`);
   }
 
-  dispose(): void {
-    for (const serverState of this.servers.values()) {
-      // Clear restart timer if exists
-      if (serverState.restartTimer) {
-        clearTimeout(serverState.restartTimer);
-      }
-      serverState.process.kill();
-    }
+  /**
+   * Stop all servers gracefully, see `shutdownServer`. Pending restarts are waited for,
+   * so that no server is left running once this returns.
+   */
+  async dispose(): Promise<void> {
+    this.disposed = true;
+    this.unwatchConfig();
+    const servers = [...this.servers.entries()];
     this.servers.clear();
+    // Crash restarts find their server gone after the backoff and give up
+    const crashRestarts = [...this.crashes.values()].map((record) => {
+      record.skipBackoff?.();
+      return record.restart;
+    });
+    await Promise.all([
+      ...servers.map(([key, serverState]) => this.stopServer(key, serverState)),
+      ...this.restarts.values(),
+      ...crashRestarts,
+    ]);
   }
 }
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'bun:test';
+import { PassThrough } from 'node:stream';
+import {
+  type LSPMessage,
+  MessageTransport,
+  encodeMessage,
+  parseHeaders,
+} from './message-transport.js';
+
+const frame = (body: string, headers = '') =>
+  Buffer.from(`Content-Length: ${Buffer.byteLength(body)}\r\n${headers}\r\n${body}`);
+
+const read = (chunks: Buffer[]) => {
+  const input = new PassThrough();
+  const messages: LSPMessage[] = [];
+  const errors: string[] = [];
+  new MessageTransport(null).listen(
+    input,
+    (message) => messages.push(message),
+    (error) => errors.push(error.message)
+  );
+  for (const chunk of chunks) {
+    input.write(chunk);
+  }
+  return { messages, errors };
+};
+
+describe('encodeMessage', () => {
+  it('should count the bytes of the UTF-8 encoded body', () => {
+    const encoded = encodeMessage({ jsonrpc: '2.0', method: 'log', params: '変数 🎉' });
+    const body = '{"jsonrpc":"2.0","method":"log","params":"変数 🎉"}';
+
+    expect(encoded).toBe(`Content-Length: ${Buffer.byteLength(body)}\r\n\r\n${body}`);
+    expect(Buffer.byteLength(body)).toBeGreaterThan(body.length);
+  });
+});
+
+describe('parseHeaders', () => {
+  it('should parse header names case-insensitively', () => {
+    const headers = parseHeaders(
+      'content-length: 42\r\nContent-Type: application/vscode-jsonrpc; charset=utf-8'
+    );
+
+    expect(headers.get('content-length')).toBe('42');
+    expect(headers.get('content-type')).toBe('application/vscode-jsonrpc; charset=utf-8');
+  });
+});
+
+describe('MessageTransport', () => {
+  const hover = JSON.stringify({
+    jsonrpc: '2.0',
+    id: 1,
+    result: { contents: 'const 名前 = "🎉"' },
+  });
+  const log = JSON.stringify({ jsonrpc: '2.0', method: 'window/logMessage', params: {} });
+
+  it('should read messages with multi-byte characters followed by more messages', () => {
+    const { messages, errors } = read([Buffer.concat([frame(hover), frame(log)])]);
+
+    expect(messages).toEqual([JSON.parse(hover), JSON.parse(log)]);
+    expect(errors).toEqual([]);
+  });
+
+  it('should reassemble messages split inside headers and multi-byte characters', () => {
+    const data = Buffer.concat([frame(hover), frame(log)]);
+    const splitInCharacter = frame(hover).indexOf(Buffer.from('名')) + 1;
+
+    const { messages } = read([
+      data.subarray(0, 7),
+      data.subarray(7, splitInCharacter),
+      data.subarray(splitInCharacter, splitInCharacter + 1),
+      data.subarray(splitInCharacter + 1),
+    ]);
+
+    expect(messages).toEqual([JSON.parse(hover), JSON.parse(log)]);
+  });
+
+  it('should accept a Content-Type header', () => {
+    const { messages } = read([
+      frame(hover, 'Content-Type: application/vscode-jsonrpc; charset=utf-8\r\n'),
+    ]);
+
+    expect(messages).toEqual([JSON.parse(hover)]);
+  });
+
+  it('should skip malformed messages and keep reading', () => {
+    const { messages, errors } = read([
+      Buffer.from('Content-Type: text/plain\r\n\r\n'),
+      frame('{not json'),
+      frame(log),
+    ]);
+
+    expect(messages).toEqual([JSON.parse(log)]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('Content-Length');
+    expect(errors[1]).toContain('Failed to parse LSP message');
+  });
+
+  it('should report errors of the message handler as such and keep reading', () => {
+    const input = new PassThrough();
+    const messages: LSPMessage[] = [];
+    const errors: string[] = [];
+    new MessageTransport(null).listen(
+      input,
+      (message) => {
+        if (message.id === 1) {
+          throw new Error('handler failed');
+        }
+        messages.push(message);
+      },
+      (error) => errors.push(error.message)
+    );
+
+    input.write(Buffer.concat([frame(hover), frame(log)]));
+
+    expect(messages).toEqual([JSON.parse(log)]);
+    expect(errors).toEqual(['Failed to handle LSP message: Error: handler failed']);
+  });
+
+  it('should write framed messages to the output', () => {
+    const output = new PassThrough();
+    const message = { jsonrpc: '2.0', id: 2, method: 'textDocument/hover', params: { text: 'é' } };
+
+    new MessageTransport(output).write(message);
+
+    expect(output.read().toString()).toBe(encodeMessage(message));
+  });
+});
@@ -0,0 +1,109 @@
+import type { Readable, Writable } from 'node:stream';
+import type { LSPError } from './types.js';
+
+export interface LSPMessage {
+  jsonrpc: string;
+  id?: number | string;
+  method?: string;
+  params?: unknown;
+  result?: unknown;
+  error?: LSPError;
+}
+
+const HEADER_DELIMITER = Buffer.from('\r\n\r\n');
+
+/**
+ * Frame a message for the base protocol: a `Content-Length` header counting the bytes of
+ * the UTF-8 encoded JSON body, followed by the body
+ */
+export function encodeMessage(message: LSPMessage): string {
+  const content = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(content, 'utf-8')}\r\n\r\n${content}`;
+}
+
+/**
+ * Parse the header part of a message into lowercased header names and their values
+ */
+export function parseHeaders(headerPart: string): Map<string, string> {
+  const headers = new Map<string, string>();
+  for (const line of headerPart.split('\r\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      headers.set(line.slice(0, separator).trim().toLowerCase(), line.slice(separator + 1).trim());
+    }
+  }
+  return headers;
+}
+
+/**
+ * Reads and writes base protocol messages on a language server's stdio. Incoming data is
+ * kept as bytes until a whole message has arrived, since `Content-Length` counts bytes
+ * and chunks may end in the middle of a multi-byte character.
+ */
+export class MessageTransport {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(private readonly output: Writable | null | undefined) {}
+
+  /**
+   * Read messages from `input`. Malformed headers and bodies are reported to `onError`
+   * and skipped, so one bad message does not stop the ones after it.
+   */
+  listen(
+    input: Readable | null | undefined,
+    onMessage: (message: LSPMessage) => void,
+    onError: (error: Error) => void
+  ): void {
+    input?.on('data', (chunk: Buffer | string) => {
+      this.buffer = Buffer.concat([
+        this.buffer,
+        typeof chunk === 'string' ? Buffer.from(chunk) : chunk,
+      ]);
+      this.readMessages(onMessage, onError);
+    });
+  }
+
+  write(message: LSPMessage): void {
+    this.output?.write(encodeMessage(message));
+  }
+
+  private readMessages(
+    onMessage: (message: LSPMessage) => void,
+    onError: (error: Error) => void
+  ): void {
+    for (;;) {
+      const headerEnd = this.buffer.indexOf(HEADER_DELIMITER);
+      if (headerEnd === -1) {
+        return;
+      }
+
+      const headers = parseHeaders(this.buffer.subarray(0, headerEnd).toString('ascii'));
+      const contentLength = Number(headers.get('content-length'));
+      const messageStart = headerEnd + HEADER_DELIMITER.length;
+      if (!headers.has('content-length') || !Number.isInteger(contentLength) || contentLength < 0) {
+        onError(new Error('Invalid LSP message header: missing or bad Content-Length'));
+        this.buffer = this.buffer.subarray(messageStart);
+        continue;
+      }
+
+      if (this.buffer.length < messageStart + contentLength) {
+        return;
+      }
+      const content = this.buffer.subarray(messageStart, messageStart + contentLength);
+      this.buffer = this.buffer.subarray(messageStart + contentLength);
+
+      let message: LSPMessage;
+      try {
+        message = JSON.parse(content.toString('utf-8'));
+      } catch (error) {
+        onError(new Error(`Failed to parse LSP message: ${error}`));
+        continue;
+      }
+      try {
+        onMessage(message);
+      } catch (error) {
+        onError(new Error(`Failed to handle LSP message: ${error}`));
+      }
+    }
+  }
+}
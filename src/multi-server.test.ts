@@ -0,0 +1,183 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPClient } from './lsp-client.js';
+import { DiagnosticSeverity, type LSPServerConfig } from './types.js';
+import { pathToUri } from './utils.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-multi-server-test`
+  : '/tmp/cclsp-multi-server-test';
+
+const FILE_PATH = join(TEST_DIR, 'src/app.ts');
+
+const range = (line: number) => ({
+  start: { line, character: 0 },
+  end: { line, character: 5 },
+});
+
+describe('Multiple servers per file', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+  let sendRequestSpy: ReturnType<typeof spyOn>;
+  let responses: Record<string, Record<string, unknown>>;
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(join(TEST_DIR, 'src'), { recursive: true });
+    const configPath = join(TEST_DIR, 'cclsp.json');
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        servers: [
+          {
+            name: 'eslint',
+            extensions: ['ts'],
+            command: ['vscode-eslint-language-server', '--stdio'],
+            rootDir: TEST_DIR,
+            secondary: true,
+          },
+          {
+            name: 'typescript',
+            extensions: ['ts'],
+            command: ['typescript-language-server', '--stdio'],
+            rootDir: TEST_DIR,
+          },
+        ],
+      })
+    );
+
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    client = new LSPClient(configPath, { cwd: TEST_DIR, homeDir: TEST_DIR });
+    responses = {};
+
+    spyOn(client as any, 'startServer').mockImplementation(async (config: unknown) => {
+      const name = (config as LSPServerConfig).name as string;
+      return {
+        process: { name },
+        config,
+        rootDir: TEST_DIR,
+        initializationPromise: Promise.resolve(),
+        diagnostics: new Map(),
+        openFiles: new Set(),
+      };
+    });
+    spyOn(client as any, 'ensureFileOpen').mockResolvedValue(undefined);
+    sendRequestSpy = spyOn(client as any, 'sendRequest').mockImplementation(
+      async (serverProcess: unknown, method: string) =>
+        responses[(serverProcess as { name: string }).name]?.[method] ?? null
+    );
+  });
+
+  afterEach(() => {
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  const requestsTo = (name: string) =>
+    sendRequestSpy.mock.calls
+      .filter((call: unknown[]) => (call[0] as { name: string }).name === name)
+      .map((call: unknown[]) => call[1] as string);
+
+  it('should merge diagnostics from all servers and label them by source', async () => {
+    responses.typescript = {
+      'textDocument/diagnostic': {
+        kind: 'full',
+        items: [{ range: range(1), message: 'Type error', source: 'ts' }],
+      },
+    };
+    responses.eslint = {
+      'textDocument/diagnostic': {
+        kind: 'full',
+        items: [{ range: range(2), message: 'Unexpected console statement' }],
+      },
+    };
+
+    const diagnostics = await client.getDiagnostics(FILE_PATH);
+
+    expect(diagnostics.map((diagnostic) => [diagnostic.message, diagnostic.source])).toEqual([
+      ['Type error', 'ts'],
+      ['Unexpected console statement', 'eslint'],
+    ]);
+    expect(diagnostics.map((diagnostic) => client.getResultSource(diagnostic))).toEqual([
+      'typescript',
+      'eslint',
+    ]);
+  });
+
+  it('should merge code actions and execute commands on the server that offered them', async () => {
+    responses.typescript = {
+      'textDocument/diagnostic': {
+        kind: 'full',
+        items: [{ range: range(1), message: 'Type error', severity: DiagnosticSeverity.Error }],
+      },
+      'textDocument/codeAction': [{ title: 'Add missing import', kind: 'quickfix' }],
+    };
+    responses.eslint = {
+      'textDocument/diagnostic': {
+        kind: 'full',
+        items: [{ range: range(1), message: 'Missing semicolon' }],
+      },
+      'textDocument/codeAction': [
+        {
+          title: 'Fix all auto-fixable problems',
+          kind: 'source.fixAll.eslint',
+          command: { title: 'Fix all', command: 'eslint.applyAllFixes' },
+        },
+      ],
+    };
+
+    const diagnostics = await client.getDiagnostics(FILE_PATH);
+    const actions = await client.getCodeActions(FILE_PATH, range(1), { diagnostics });
+
+    expect(actions.map((action) => action.title)).toEqual([
+      'Add missing import',
+      'Fix all auto-fixable problems',
+    ]);
+    expect(actions.map((action) => client.getResultSource(action))).toEqual([
+      'typescript',
+      'eslint',
+    ]);
+
+    // Each server only receives its own diagnostics in the code action context, as it
+    // reported them and without the source label
+    const contextFor = (name: string) =>
+      sendRequestSpy.mock.calls.find(
+        (call: unknown[]) =>
+          (call[0] as { name: string }).name === name && call[1] === 'textDocument/codeAction'
+      )?.[2] as { context: { diagnostics: unknown[] } };
+    expect(diagnostics.map((diagnostic) => diagnostic.source)).toEqual(['typescript', 'eslint']);
+    expect(contextFor('eslint').context.diagnostics).toEqual([
+      { range: range(1), message: 'Missing semicolon' },
+    ]);
+
+    const fixAll = actions[1];
+    if (!fixAll || !('command' in fixAll) || typeof fixAll.command !== 'object') {
+      throw new Error('Expected a code action with a command');
+    }
+    await client.executeCommand(fixAll.command);
+    expect(requestsTo('eslint')).toContain('workspace/executeCommand');
+    expect(requestsTo('typescript')).not.toContain('workspace/executeCommand');
+  });
+
+  it('should merge completions from all servers', async () => {
+    responses.typescript = { 'textDocument/completion': [{ label: 'useState' }] };
+    responses.eslint = { 'textDocument/completion': { isIncomplete: false, items: [] } };
+
+    const completions = await client.getCompletion(FILE_PATH, { line: 0, character: 3 });
+
+    expect(completions.map((item) => item.label)).toEqual(['useState']);
+    expect(client.getResultSource(completions[0] as object)).toBe('typescript');
+  });
+
+  it('should send navigation requests to the primary server only', async () => {
+    responses.typescript = {
+      'textDocument/definition': [{ uri: pathToUri(FILE_PATH), range: range(4) }],
+    };
+
+    const locations = await client.findDefinition(FILE_PATH, { line: 1, character: 2 });
+
+    expect(locations).toHaveLength(1);
+    expect(requestsTo('eslint')).toEqual([]);
+  });
+});
@@ -0,0 +1,254 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPClient } from './lsp-client.js';
+import {
+  type PositionConversion,
+  convertCharacter,
+  convertPositions,
+  getPositionEncoding,
+} from './position-encoding.js';
+import { pathToUri } from './utils.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-position-encoding-test`
+  : '/tmp/cclsp-position-encoding-test';
+
+// "名前" is 2 UTF-16 code units and 6 UTF-8 bytes, "🎉" 2 UTF-16 code units and 4 bytes
+const LINE = 'const 名前 = "🎉"; foo();';
+
+describe('getPositionEncoding', () => {
+  it('should use the encoding the server picked and default to UTF-16', () => {
+    expect(getPositionEncoding({ positionEncoding: 'utf-8' })).toBe('utf-8');
+    expect(getPositionEncoding({ positionEncoding: 'utf-32' })).toBe('utf-32');
+    expect(getPositionEncoding({ positionEncoding: 'latin-1' })).toBe('utf-16');
+    expect(getPositionEncoding({})).toBe('utf-16');
+    expect(getPositionEncoding(undefined)).toBe('utf-16');
+  });
+});
+
+describe('convertCharacter', () => {
+  const foo = LINE.indexOf('foo');
+
+  it('should convert columns after multi-byte and astral characters', () => {
+    expect(convertCharacter(LINE, foo, 'utf-16', 'utf-8')).toBe(foo + 4 + 2);
+    expect(convertCharacter(LINE, foo, 'utf-16', 'utf-32')).toBe(foo - 1);
+    expect(convertCharacter(LINE, foo + 6, 'utf-8', 'utf-16')).toBe(foo);
+    expect(convertCharacter(LINE, foo - 1, 'utf-32', 'utf-16')).toBe(foo);
+  });
+
+  it('should leave columns before any multi-byte character alone', () => {
+    expect(convertCharacter(LINE, 6, 'utf-16', 'utf-8')).toBe(6);
+    expect(convertCharacter(LINE, 6, 'utf-16', 'utf-16')).toBe(6);
+  });
+
+  it('should keep columns past the end of the line past the end', () => {
+    expect(convertCharacter('名', 3, 'utf-16', 'utf-8')).toBe(5);
+  });
+});
+
+describe('convertPositions', () => {
+  const uri = 'file:///main.ts';
+  const otherUri = 'file:///other.ts';
+  const texts: Record<string, string> = { [uri]: `x\n${LINE}`, [otherUri]: '🎉🎉 bar' };
+  const toUtf8: PositionConversion = {
+    from: 'utf-16',
+    to: 'utf-8',
+    uri,
+    getText: (documentUri) => texts[documentUri],
+  };
+  const range = (line: number, start: number, end: number) => ({
+    start: { line, character: start },
+    end: { line, character: end },
+  });
+
+  it('should convert positions in the request document and in named documents', () => {
+    const params = { textDocument: { uri }, position: { line: 1, character: 20 } };
+    const locations = [{ uri: otherUri, range: range(0, 5, 8) }];
+
+    expect(convertPositions(params, toUtf8).position).toEqual({ line: 1, character: 26 });
+    expect(convertPositions(locations, toUtf8)).toEqual([
+      { uri: otherUri, range: range(0, 9, 12) },
+    ]);
+  });
+
+  it('should convert location links, workspace edits and incoming calls per document', () => {
+    const link = {
+      originSelectionRange: range(1, 20, 23),
+      targetUri: otherUri,
+      targetRange: range(0, 5, 8),
+      targetSelectionRange: range(0, 5, 8),
+    };
+    const edit = {
+      changes: { [otherUri]: [{ range: range(0, 5, 8), newText: 'baz' }] },
+      documentChanges: [
+        {
+          textDocument: { uri: otherUri, version: 1 },
+          edits: [{ range: range(0, 4, 4), newText: '' }],
+        },
+      ],
+    };
+    const incomingCall = {
+      from: { uri: otherUri, range: range(0, 0, 8) },
+      fromRanges: [range(0, 5, 8)],
+    };
+
+    expect(convertPositions(link, toUtf8)).toEqual({
+      originSelectionRange: range(1, 26, 29),
+      targetUri: otherUri,
+      targetRange: range(0, 9, 12),
+      targetSelectionRange: range(0, 9, 12),
+    });
+    expect(convertPositions(edit, toUtf8)).toEqual({
+      changes: { [otherUri]: [{ range: range(0, 9, 12), newText: 'baz' }] },
+      documentChanges: [
+        {
+          textDocument: { uri: otherUri, version: 1 },
+          edits: [{ range: range(0, 8, 8), newText: '' }],
+        },
+      ],
+    });
+    expect(convertPositions(incomingCall, toUtf8).fromRanges).toEqual([range(0, 9, 12)]);
+  });
+
+  it('should drop the rangeLength of converted content changes', () => {
+    const change: Record<string, unknown> = { range: range(1, 6, 8), rangeLength: 2, text: '名称' };
+
+    expect(convertPositions(change, toUtf8)).toEqual({ range: range(1, 6, 12), text: '名称' });
+  });
+
+  it('should leave positions in unknown documents and same-encoding values untouched', () => {
+    const location = { uri: 'file:///missing.ts', range: range(0, 5, 8) };
+
+    expect(convertPositions(location, toUtf8)).toEqual(location);
+    expect(convertPositions(location, { ...toUtf8, to: 'utf-16' })).toBe(location);
+  });
+});
+
+describe('LSPClient position encoding', () => {
+  const filePath = join(TEST_DIR, 'main.ts');
+  const uri = pathToUri(filePath);
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+  let written: Array<{ id?: number; method: string; params: any }>;
+  let serverState: any;
+
+  // UTF-8 server answering every request with the location of foo()
+  const serverProcess = {
+    kill: () => true,
+    stdin: {
+      write: (data: string) => {
+        const message = JSON.parse(data.slice(data.indexOf('\r\n\r\n') + 4));
+        written.push(message);
+        if (message.id !== undefined) {
+          const result = [
+            { uri, range: { start: { line: 0, character: 23 }, end: { line: 0, character: 26 } } },
+          ];
+          queueMicrotask(() =>
+            (client as any)
+              .getConnection(serverProcess)
+              .handleMessage({ jsonrpc: '2.0', id: message.id, result })
+          );
+        }
+      },
+    },
+  };
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(filePath, `${LINE}\n`);
+    const configPath = join(TEST_DIR, 'cclsp.json');
+    writeFileSync(
+      configPath,
+      JSON.stringify({ servers: [{ extensions: ['ts'], command: ['ts-server'] }] })
+    );
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    client = new LSPClient(configPath, { cwd: TEST_DIR, homeDir: TEST_DIR });
+    written = [];
+    serverState = {
+      process: serverProcess,
+      config: (client as any).config.servers[0],
+      rootDir: TEST_DIR,
+      openFiles: new Set(),
+      documents: new Map(),
+      diagnostics: new Map(),
+      lastDiagnosticUpdate: new Map(),
+      diagnosticVersions: new Map(),
+      capabilities: { textDocumentSync: 2 },
+      positionEncoding: 'utf-8',
+    };
+    (client as any).servers.set('test-key', serverState);
+  });
+
+  afterEach(async () => {
+    await client.dispose();
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should send positions in the server encoding and return them in UTF-16', async () => {
+    const foo = LINE.indexOf('foo');
+
+    const result = await (client as any).sendRequest(serverProcess, 'textDocument/definition', {
+      textDocument: { uri },
+      position: { line: 0, character: foo },
+    });
+
+    expect(written[0]?.params.position).toEqual({ line: 0, character: foo + 6 });
+    expect(result).toEqual([
+      {
+        uri,
+        range: { start: { line: 0, character: foo }, end: { line: 0, character: foo + 3 } },
+      },
+    ]);
+  });
+
+  it('should convert incremental changes against the previous content', async () => {
+    await (client as any).ensureFileOpen(serverState, filePath);
+    writeFileSync(filePath, `${LINE.replace('foo', 'bar')}\n`);
+
+    await (client as any).syncDocument(serverState, filePath, true);
+
+    const change = written.find((message) => message.method === 'textDocument/didChange');
+    expect(change?.params.contentChanges[0].range).toEqual({
+      start: { line: 0, character: LINE.indexOf('foo') + 6 },
+      end: { line: 0, character: LINE.indexOf('foo') + 6 + 3 },
+    });
+  });
+
+  it('should send edits of multi-byte text in the server encoding', async () => {
+    await (client as any).ensureFileOpen(serverState, filePath);
+    writeFileSync(filePath, `${LINE.replace('前', '称')}\n`);
+
+    await (client as any).syncDocument(serverState, filePath, true);
+
+    // "const 名" is 7 UTF-16 code units and 9 UTF-8 bytes
+    const change = written.find((message) => message.method === 'textDocument/didChange');
+    expect(change?.params.contentChanges).toEqual([
+      {
+        range: { start: { line: 0, character: 9 }, end: { line: 0, character: 12 } },
+        text: '称',
+      },
+    ]);
+  });
+
+  it('should convert diagnostics published by the server', () => {
+    (client as any).registerServerHandlers(serverState);
+    (client as any).getConnection(serverProcess).handleMessage({
+      jsonrpc: '2.0',
+      method: 'textDocument/publishDiagnostics',
+      params: {
+        uri,
+        diagnostics: [
+          {
+            message: 'unused',
+            range: { start: { line: 0, character: 23 }, end: { line: 0, character: 26 } },
+          },
+        ],
+      },
+    });
+
+    expect(serverState.diagnostics.get(uri)[0].range.start.character).toBe(LINE.indexOf('foo'));
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Unit the `character` of an LSP position counts. UTF-16 code units are the LSP default
+ * and what JavaScript string indexes count, so cclsp works in UTF-16 internally and
+ * converts positions for servers that negotiated another encoding.
+ */
+export type PositionEncoding = 'utf-8' | 'utf-16' | 'utf-32';
+
+/**
+ * Encodings advertised in `general.positionEncodings`, in order of preference
+ */
+export const SUPPORTED_POSITION_ENCODINGS: PositionEncoding[] = ['utf-16', 'utf-8', 'utf-32'];
+
+/**
+ * Encoding a server picked in its initialize result, defaulting to UTF-16
+ */
+export function getPositionEncoding(capabilities?: {
+  positionEncoding?: string;
+}): PositionEncoding {
+  const encoding = capabilities?.positionEncoding;
+  return encoding === 'utf-8' || encoding === 'utf-32' ? encoding : 'utf-16';
+}
+
+function getCodeUnitCount(codePoint: number, encoding: PositionEncoding): number {
+  switch (encoding) {
+    case 'utf-8':
+      if (codePoint < 0x80) return 1;
+      if (codePoint < 0x800) return 2;
+      return codePoint < 0x10000 ? 3 : 4;
+    case 'utf-16':
+      return codePoint > 0xffff ? 2 : 1;
+    case 'utf-32':
+      return 1;
+  }
+}
+
+/**
+ * Convert a column in a line from one encoding to another. Columns past the end of the
+ * line are kept the same distance past it.
+ */
+export function convertCharacter(
+  lineText: string,
+  character: number,
+  from: PositionEncoding,
+  to: PositionEncoding
+): number {
+  if (from === to) {
+    return character;
+  }
+
+  let fromOffset = 0;
+  let toOffset = 0;
+  for (const char of lineText) {
+    if (fromOffset >= character) {
+      break;
+    }
+    const codePoint = char.codePointAt(0) ?? 0;
+    fromOffset += getCodeUnitCount(codePoint, from);
+    toOffset += getCodeUnitCount(codePoint, to);
+  }
+  return toOffset + Math.max(character - fromOffset, 0);
+}
+
+export interface PositionConversion {
+  from: PositionEncoding;
+  to: PositionEncoding;
+  uri?: string; // Document of positions that don't name their own, e.g. the request's
+  getText: (uri: string) => string | undefined; // Content of a document
+}
+
+// Keys holding objects that map document URIs to their edits or reports
+const URI_MAP_KEYS = new Set(['changes', 'relatedDocuments']);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Copy an LSP params or result value with every position in it converted between
+ * encodings. The document of a position is taken from the nearest `uri`,
+ * `textDocument.uri` or `targetUri` around it, or the URI keys of a WorkspaceEdit's
+ * `changes`. Positions in documents whose content is unknown are left as they are. The
+ * deprecated `rangeLength` next to a range counts code units of the original encoding,
+ * so it is left out of converted values rather than sent in mismatched units.
+ */
+export function convertPositions<T>(value: T, conversion: PositionConversion): T {
+  if (conversion.from === conversion.to) {
+    return value;
+  }
+
+  const lines = new Map<string, string[] | undefined>();
+  const getLine = (uri: string, line: number): string | undefined => {
+    if (!lines.has(uri)) {
+      lines.set(uri, conversion.getText(uri)?.split(/\r\n|\r|\n/));
+    }
+    return lines.get(uri)?.[line];
+  };
+
+  const convert = (node: unknown, uri: string | undefined): unknown => {
+    if (Array.isArray(node)) {
+      return node.map((item) => convert(item, uri));
+    }
+    if (!isObject(node)) {
+      return node;
+    }
+
+    if (typeof node.line === 'number' && typeof node.character === 'number') {
+      const lineText = uri === undefined ? undefined : getLine(uri, node.line);
+      return lineText === undefined
+        ? node
+        : {
+            ...node,
+            character: convertCharacter(lineText, node.character, conversion.from, conversion.to),
+          };
+    }
+
+    let ownUri = uri;
+    if (typeof node.uri === 'string') {
+      ownUri = node.uri;
+    } else if (isObject(node.textDocument) && typeof node.textDocument.uri === 'string') {
+      ownUri = node.textDocument.uri;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, child] of Object.entries(node)) {
+      if (key === 'rangeLength' && isObject(node.range)) {
+        continue;
+      }
+      if (URI_MAP_KEYS.has(key) && isObject(child)) {
+        result[key] = Object.fromEntries(
+          Object.entries(child).map(([childUri, edits]) => [childUri, convert(edits, childUri)])
+        );
+      } else if (
+        (key === 'targetRange' || key === 'targetSelectionRange') &&
+        typeof node.targetUri === 'string'
+      ) {
+        result[key] = convert(child, node.targetUri);
+      } else if (key === 'fromRanges' && isObject(node.from) && typeof node.from.uri === 'string') {
+        // Incoming calls: the call sites are in the caller
+        result[key] = convert(child, node.from.uri);
+      } else {
+        result[key] = convert(child, ownUri);
+      }
+    }
+    return result;
+  };
+
+  return convert(value, conversion.uri) as T;
+}
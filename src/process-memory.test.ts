@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'bun:test';
+import { getProcessTreeMemory, sumProcessTreeMemory } from './process-memory.js';
+
+describe('sumProcessTreeMemory', () => {
+  const table = `
+      1     0  1000
+     10     1   200
+     11    10  3000
+     12    11   400
+     20     1  5000
+  `;
+
+  it('should add up the memory of a process and all its descendants', () => {
+    expect(sumProcessTreeMemory(table, 10)).toBe((200 + 3000 + 400) * 1024);
+    expect(sumProcessTreeMemory(table, 12)).toBe(400 * 1024);
+  });
+
+  it('should return undefined for processes missing from the table', () => {
+    expect(sumProcessTreeMemory(table, 99)).toBeUndefined();
+    expect(sumProcessTreeMemory('', 10)).toBeUndefined();
+  });
+});
+
+describe('getProcessTreeMemory', () => {
+  it.skipIf(process.platform === 'win32')('should measure a running process', async () => {
+    const memory = await getProcessTreeMemory(process.pid);
+
+    expect(memory).toBeGreaterThan(0);
+  });
+});
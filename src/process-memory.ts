@@ -0,0 +1,56 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Sum the resident set size of a process and all its descendants in a process table as
+ * printed by `ps -A -o pid=,ppid=,rss=`. Servers are often started through wrappers like
+ * npx or uvx, whose own memory says nothing about the server they run.
+ * @returns Memory in bytes, or undefined when the process is not in the table
+ */
+export function sumProcessTreeMemory(processTable: string, pid: number): number | undefined {
+  const children = new Map<number, number[]>();
+  const rssKb = new Map<number, number>();
+  for (const line of processTable.split('\n')) {
+    const [pidField, ppidField, rssField] = line.trim().split(/\s+/);
+    const processId = Number(pidField);
+    const parentId = Number(ppidField);
+    const rss = Number(rssField);
+    if (!pidField || Number.isNaN(processId) || Number.isNaN(parentId) || Number.isNaN(rss)) {
+      continue;
+    }
+    rssKb.set(processId, rss);
+    const siblings = children.get(parentId) ?? [];
+    siblings.push(processId);
+    children.set(parentId, siblings);
+  }
+
+  if (!rssKb.has(pid)) {
+    return undefined;
+  }
+
+  let totalKb = 0;
+  const seen = new Set<number>();
+  const queue = [pid];
+  for (let processId = queue.pop(); processId !== undefined; processId = queue.pop()) {
+    if (seen.has(processId)) continue;
+    seen.add(processId);
+    totalKb += rssKb.get(processId) ?? 0;
+    queue.push(...(children.get(processId) ?? []));
+  }
+  return totalKb * 1024;
+}
+
+/**
+ * Resident memory of a process and its descendants in bytes. Undefined when the process
+ * is gone or the platform has no `ps` to ask.
+ */
+export async function getProcessTreeMemory(pid: number): Promise<number | undefined> {
+  try {
+    const { stdout } = await execFileAsync('ps', ['-A', '-o', 'pid=,ppid=,rss=']);
+    return sumProcessTreeMemory(stdout, pid);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPClient } from './lsp-client.js';
+import {
+  findNearestProjectRoot,
+  findProjectRoots,
+  getRootMarkers,
+  isWithinDirectory,
+} from './project-roots.js';
+import { SymbolKind } from './types.js';
+import { pathToUri } from './utils.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/project-roots-test`
+  : '/tmp/project-roots-test';
+
+const writeProjectFile = (relativePath: string, content = '') => {
+  const filePath = join(TEST_DIR, relativePath);
+  mkdirSync(join(filePath, '..'), { recursive: true });
+  writeFileSync(filePath, content);
+  return filePath;
+};
+
+describe('project-roots', () => {
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  describe('getRootMarkers', () => {
+    it('should combine the markers for all extensions without duplicates', () => {
+      expect(getRootMarkers(['ts', 'tsx'])).toEqual(['tsconfig.json', 'jsconfig.json']);
+      expect(getRootMarkers(['go', 'rs'])).toEqual(['go.mod', 'Cargo.toml']);
+      expect(getRootMarkers(['unknown'])).toEqual([]);
+    });
+  });
+
+  describe('isWithinDirectory', () => {
+    it('should accept the directory itself and paths below it', () => {
+      expect(isWithinDirectory('/repo', '/repo')).toBe(true);
+      expect(isWithinDirectory('/repo/src/index.ts', '/repo')).toBe(true);
+      expect(isWithinDirectory('/repository/index.ts', '/repo')).toBe(false);
+      expect(isWithinDirectory('/other/index.ts', '/repo')).toBe(false);
+    });
+  });
+
+  describe('findNearestProjectRoot', () => {
+    it('should return the nearest directory containing a marker', () => {
+      writeProjectFile('tsconfig.json');
+      writeProjectFile('packages/web/tsconfig.json');
+      const webFile = writeProjectFile('packages/web/src/app.ts');
+      const rootFile = writeProjectFile('scripts/build.ts');
+
+      expect(findNearestProjectRoot(webFile, ['tsconfig.json'], TEST_DIR)).toBe(
+        join(TEST_DIR, 'packages/web')
+      );
+      expect(findNearestProjectRoot(rootFile, ['tsconfig.json'], TEST_DIR)).toBe(TEST_DIR);
+    });
+
+    it('should not search above the boundary', () => {
+      writeProjectFile('go.mod');
+      const filePath = writeProjectFile('services/api/main.go');
+
+      expect(findNearestProjectRoot(filePath, ['go.mod'], join(TEST_DIR, 'services'))).toBeNull();
+      expect(findNearestProjectRoot(filePath, ['go.mod'], TEST_DIR)).toBe(TEST_DIR);
+    });
+
+    it('should never return a directory inside node_modules', () => {
+      writeProjectFile('tsconfig.json');
+      writeProjectFile('node_modules/some-package/tsconfig.json');
+      const filePath = writeProjectFile('node_modules/some-package/src/index.ts');
+
+      expect(findNearestProjectRoot(filePath, ['tsconfig.json'], TEST_DIR)).toBe(TEST_DIR);
+    });
+  });
+
+  describe('findProjectRoots', () => {
+    it('should find every directory with a marker and skip ignored ones', async () => {
+      writeProjectFile('go.work');
+      writeProjectFile('services/api/go.mod');
+      writeProjectFile('services/worker/go.mod');
+      writeProjectFile('node_modules/some-package/go.mod');
+      writeProjectFile('vendor/lib/go.mod');
+      writeProjectFile('.gitignore', 'vendor\n');
+
+      const roots = await findProjectRoots(TEST_DIR, ['go.mod']);
+
+      expect(roots.sort()).toEqual([
+        join(TEST_DIR, 'services/api'),
+        join(TEST_DIR, 'services/worker'),
+      ]);
+    });
+
+    it('should skip node_modules even when it is not gitignored', async () => {
+      writeProjectFile('tsconfig.json');
+      writeProjectFile('node_modules/some-package/tsconfig.json');
+      writeProjectFile('.gitignore', '!node_modules\n');
+
+      expect(await findProjectRoots(TEST_DIR, ['tsconfig.json'])).toEqual([TEST_DIR]);
+    });
+  });
+});
+
+describe('multi-root routing', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+
+  const createServerState = (rootDir: string) => ({
+    process: {},
+    initializationPromise: Promise.resolve(),
+    openFiles: new Set(),
+    rootDir,
+  });
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    const configPath = writeProjectFile(
+      'cclsp.json',
+      JSON.stringify({
+        servers: [
+          {
+            extensions: ['ts'],
+            command: ['typescript-language-server', '--stdio'],
+            rootDir: TEST_DIR,
+          },
+        ],
+      })
+    );
+    writeProjectFile('packages/web/tsconfig.json');
+    writeProjectFile('packages/api/tsconfig.json');
+
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    client = new LSPClient(configPath, { cwd: TEST_DIR, homeDir: TEST_DIR });
+  });
+
+  afterEach(() => {
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should start one server instance per project root', async () => {
+    const startServerSpy = spyOn(client as any, 'startServer').mockImplementation(
+      async (_config: unknown, rootDir: unknown) => createServerState(rootDir as string)
+    );
+
+    const web = await (client as any).getServer(join(TEST_DIR, 'packages/web/src/app.ts'));
+    const webAgain = await (client as any).getServer(join(TEST_DIR, 'packages/web/index.ts'));
+    const api = await (client as any).getServer(join(TEST_DIR, 'packages/api/server.ts'));
+
+    expect(web).toBe(webAgain);
+    expect(web.rootDir).toBe(join(TEST_DIR, 'packages/web'));
+    expect(api.rootDir).toBe(join(TEST_DIR, 'packages/api'));
+    expect(startServerSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should fall back to the configured rootDir when no marker is found', async () => {
+    spyOn(client as any, 'startServer').mockImplementation(
+      async (_config: unknown, rootDir: unknown) => createServerState(rootDir as string)
+    );
+
+    const server = await (client as any).getServer(join(TEST_DIR, 'scripts/build.ts'));
+
+    expect(server.rootDir).toBe(TEST_DIR);
+  });
+
+  it('should only start servers selected for the workspace files', async () => {
+    const configPath = writeProjectFile(
+      'cclsp.json',
+      JSON.stringify({
+        servers: [
+          { extensions: ['ts'], command: ['deno', 'lsp'], rootMarkers: ['deno.json'] },
+          { extensions: ['ts'], command: ['typescript-language-server', '--stdio'] },
+          { extensions: ['ts'], command: ['eslint-lsp'], secondary: true },
+        ].map((server) => ({ ...server, rootDir: TEST_DIR })),
+      })
+    );
+    writeProjectFile('scripts/build.ts', 'export const build = 1;');
+    client = new LSPClient(configPath, { cwd: TEST_DIR, homeDir: TEST_DIR });
+    const startServerSpy = spyOn(client as any, 'startServer').mockImplementation(
+      async (_config: unknown, rootDir: unknown) => createServerState(rootDir as string)
+    );
+    spyOn(client as any, 'ensureFileOpen').mockResolvedValue(undefined);
+    spyOn(client as any, 'waitForWorkspaceIndexing').mockResolvedValue(undefined);
+    spyOn(client as any, 'sendRequest').mockResolvedValue([]);
+
+    await client.getWorkspaceSymbols('build');
+
+    expect(startServerSpy.mock.calls.map((call: unknown[]) => (call[0] as any).command[0])).toEqual(
+      ['typescript-language-server']
+    );
+  });
+
+  it('should query every root for workspace symbols and merge the results', async () => {
+    writeProjectFile('packages/web/app.ts', 'export const app = 1;');
+    writeProjectFile('packages/api/server.ts', 'export const server = 1;');
+
+    const shared = {
+      name: 'Config',
+      kind: SymbolKind.Interface,
+      location: {
+        uri: pathToUri(join(TEST_DIR, 'packages/shared.ts')),
+        range: { start: { line: 0, character: 17 }, end: { line: 0, character: 23 } },
+      },
+    };
+    const symbolsByRoot: Record<string, unknown[]> = {
+      [join(TEST_DIR, 'packages/web')]: [{ ...shared }, { ...shared, name: 'WebConfig' }],
+      [join(TEST_DIR, 'packages/api')]: [{ ...shared }],
+    };
+
+    spyOn(client as any, 'startServer').mockImplementation(
+      async (_config: unknown, rootDir: unknown) => ({
+        ...createServerState(rootDir as string),
+        process: { rootDir },
+      })
+    );
+    spyOn(client as any, 'ensureFileOpen').mockResolvedValue(undefined);
+    spyOn(client as any, 'waitForWorkspaceIndexing').mockResolvedValue(undefined);
+    spyOn(client as any, 'sendRequest').mockImplementation(
+      async (serverProcess: unknown) =>
+        symbolsByRoot[(serverProcess as { rootDir: string }).rootDir]
+    );
+
+    const symbols = await client.getWorkspaceSymbols('Config');
+
+    expect(symbols.map((symbol) => symbol.name).sort()).toEqual(['Config', 'WebConfig']);
+    expect((client as any).servers.size).toBe(2);
+  });
+});
@@ -0,0 +1,132 @@
+import { existsSync } from 'node:fs';
+import { readdir, stat } from 'node:fs/promises';
+import { dirname, isAbsolute, join, relative, sep } from 'node:path';
+import { loadGitignore } from './file-scanner.js';
+
+/**
+ * Files that mark the root of a project, by the file extension of the sources they belong to.
+ * The nearest directory above a file containing one of these becomes the root of its server.
+ * `package.json` is left out for JavaScript and TypeScript since every package in a monorepo
+ * has one, servers can opt in to it with `rootMarkers`.
+ */
+export const DEFAULT_ROOT_MARKERS: Record<string, string[]> = {
+  js: ['tsconfig.json', 'jsconfig.json'],
+  ts: ['tsconfig.json', 'jsconfig.json'],
+  jsx: ['tsconfig.json', 'jsconfig.json'],
+  tsx: ['tsconfig.json', 'jsconfig.json'],
+  mjs: ['tsconfig.json', 'jsconfig.json'],
+  cjs: ['tsconfig.json', 'jsconfig.json'],
+  vue: ['tsconfig.json', 'jsconfig.json'],
+  svelte: ['tsconfig.json', 'jsconfig.json'],
+  py: ['pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt'],
+  pyi: ['pyproject.toml', 'setup.py', 'setup.cfg', 'requirements.txt'],
+  go: ['go.mod'],
+  rs: ['Cargo.toml'],
+  java: ['pom.xml', 'build.gradle', 'build.gradle.kts'],
+  kt: ['build.gradle', 'build.gradle.kts', 'pom.xml'],
+  rb: ['Gemfile'],
+  php: ['composer.json'],
+  dart: ['pubspec.yaml'],
+  ex: ['mix.exs'],
+  exs: ['mix.exs'],
+  hs: ['stack.yaml', 'cabal.project'],
+  c: ['compile_commands.json', '.clangd'],
+  cpp: ['compile_commands.json', '.clangd'],
+  cc: ['compile_commands.json', '.clangd'],
+  cxx: ['compile_commands.json', '.clangd'],
+  h: ['compile_commands.json', '.clangd'],
+  hpp: ['compile_commands.json', '.clangd'],
+  swift: ['Package.swift'],
+  zig: ['build.zig'],
+  lua: ['.luarc.json'],
+};
+
+/**
+ * Get the project markers for a server handling the given extensions
+ */
+export function getRootMarkers(extensions: string[]): string[] {
+  return [...new Set(extensions.flatMap((ext) => DEFAULT_ROOT_MARKERS[ext] || []))];
+}
+
+/**
+ * Check whether a path is the given directory or lies below it
+ */
+export function isWithinDirectory(path: string, dirPath: string): boolean {
+  const relativePath = relative(dirPath, path);
+  return !isAbsolute(relativePath) && relativePath.split(sep)[0] !== '..';
+}
+
+/**
+ * Check whether a directory lies inside `node_modules`. Installed packages belong to the
+ * project that installed them and are never a project root of their own.
+ */
+function isInNodeModules(dirPath: string): boolean {
+  return dirPath.split(sep).includes('node_modules');
+}
+
+/**
+ * Find the nearest directory above a file that contains one of the markers. The search
+ * stops at `boundary` when the file lies below it. Returns null if no marker is found.
+ */
+export function findNearestProjectRoot(
+  filePath: string,
+  markers: string[],
+  boundary?: string
+): string | null {
+  const stopAt = boundary && isWithinDirectory(filePath, boundary) ? boundary : null;
+  let dir = dirname(filePath);
+
+  while (true) {
+    if (!isInNodeModules(dir) && markers.some((marker) => existsSync(join(dir, marker)))) {
+      return dir;
+    }
+    const parent = dirname(dir);
+    if (dir === stopAt || parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Find every directory below `rootDir` (including itself) that contains one of the markers,
+ * skipping gitignored directories
+ */
+export async function findProjectRoots(
+  rootDir: string,
+  markers: string[],
+  maxDepth = 3
+): Promise<string[]> {
+  const roots: string[] = [];
+  const ig = await loadGitignore(rootDir);
+
+  async function scanDirectory(dirPath: string, depth: number, relativePath = ''): Promise<void> {
+    let entries: string[];
+    try {
+      entries = await readdir(dirPath);
+    } catch {
+      return;
+    }
+
+    if (!isInNodeModules(dirPath) && markers.some((marker) => entries.includes(marker))) {
+      roots.push(dirPath);
+    }
+    if (depth >= maxDepth) {
+      return;
+    }
+
+    for (const entry of entries) {
+      const entryRelativePath = relativePath ? `${relativePath}/${entry}` : entry;
+      if (entry === 'node_modules' || ig.ignores(entryRelativePath)) continue;
+
+      const entryPath = join(dirPath, entry);
+      const stats = await stat(entryPath).catch(() => null);
+      if (stats?.isDirectory()) {
+        await scanDirectory(entryPath, depth + 1, entryRelativePath);
+      }
+    }
+  }
+
+  await scanDirectory(rootDir, 0);
+  return roots;
+}
@@ -0,0 +1,128 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPClient } from './lsp-client.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-request-cancellation-test`
+  : '/tmp/cclsp-request-cancellation-test';
+
+const CONFIG_PATH = join(TEST_DIR, 'cclsp.json');
+
+describe('request cancellation', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+  let written: Array<{ id?: number; method?: string; params?: unknown }>;
+
+  // Server process that records the messages written to it and never answers
+  const serverProcess = {
+    kill: () => true,
+    stdin: {
+      write: (data: string) => {
+        written.push(JSON.parse(data.slice(data.indexOf('\r\n\r\n') + 4)));
+      },
+    },
+  };
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(
+      CONFIG_PATH,
+      JSON.stringify({ servers: [{ extensions: ['ts'], command: ['typescript-language-server'] }] })
+    );
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    client = new LSPClient(CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
+    written = [];
+  });
+
+  afterEach(async () => {
+    await client.dispose();
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should send $/cancelRequest when a request times out', async () => {
+    await expect(
+      (client as any).sendRequest(serverProcess, 'workspace/symbol', { query: 'a' }, 20)
+    ).rejects.toThrow('LSP request timeout: workspace/symbol (20ms)');
+
+    const [request, cancel] = written;
+    expect(request?.method).toBe('workspace/symbol');
+    expect(cancel).toMatchObject({ method: '$/cancelRequest', params: { id: request?.id } });
+    expect((client as any).hasPendingRequests({ process: serverProcess })).toBe(false);
+  });
+
+  it('should cancel the requests of an aborted tool call', async () => {
+    const controller = new AbortController();
+
+    const toolCall = client.withCancellation(controller.signal, async () => {
+      const first = (client as any).sendRequest(serverProcess, 'textDocument/references', {});
+      const second = (client as any).sendRequest(serverProcess, 'textDocument/hover', {});
+      return Promise.allSettled([first, second]);
+    });
+    controller.abort();
+    const results = await toolCall;
+
+    expect(results.map((result) => result.status)).toEqual(['rejected', 'rejected']);
+    expect((results[0] as PromiseRejectedResult).reason.message).toBe(
+      'LSP request cancelled: textDocument/references'
+    );
+    const ids = written.filter((message) => message.id !== undefined).map((message) => message.id);
+    expect(
+      written.filter((message) => message.method === '$/cancelRequest').map((m) => m.params)
+    ).toEqual(ids.map((id) => ({ id })));
+    expect((client as any).hasPendingRequests({ process: serverProcess })).toBe(false);
+  });
+
+  it('should not send requests once the tool call was cancelled', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      client.withCancellation(controller.signal, () =>
+        (client as any).sendRequest(serverProcess, 'workspace/symbol', { query: 'a' })
+      )
+    ).rejects.toThrow('LSP request cancelled: workspace/symbol');
+    expect(written).toEqual([]);
+  });
+
+  it('should leave requests of other tool calls running', async () => {
+    const controller = new AbortController();
+    const other = (client as any).sendRequest(serverProcess, 'workspace/symbol', {});
+
+    const cancelled = client.withCancellation(controller.signal, () =>
+      (client as any).sendRequest(serverProcess, 'textDocument/hover', {})
+    );
+    controller.abort();
+    await expect(cancelled).rejects.toThrow('cancelled');
+
+    expect((client as any).hasPendingRequests({ process: serverProcess })).toBe(true);
+    const otherId = written.find((message) => message.method === 'workspace/symbol')?.id;
+    (client as any)
+      .getConnection(serverProcess)
+      .handleMessage({ jsonrpc: '2.0', id: otherId, result: [] });
+    expect(await other).toEqual([]);
+  });
+
+  it('should not cancel the startup of a server started by a cancelled tool call', async () => {
+    const controller = new AbortController();
+    let startupSignal: AbortSignal | undefined;
+    spyOn(client as any, 'startServer').mockImplementation(async () => {
+      startupSignal = (client as any).cancellation.getStore();
+      controller.abort();
+      return {
+        process: serverProcess,
+        config: (client as any).config.servers[0],
+        openFiles: new Set(),
+        lastActivity: Date.now(),
+      };
+    });
+
+    await client.withCancellation(controller.signal, () =>
+      (client as any).getServer(join(TEST_DIR, 'index.ts'))
+    );
+
+    expect(startupSignal).toBeUndefined();
+  });
+});
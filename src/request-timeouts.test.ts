@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPRequestError } from './json-rpc-connection.js';
+import { LSPClient } from './lsp-client.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-request-timeouts-test`
+  : '/tmp/cclsp-request-timeouts-test';
+
+const CONFIG_PATH = join(TEST_DIR, 'cclsp.json');
+
+describe('request timeouts and retries', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+  let written: Array<{ id: number; method: string }>;
+  let respond: ((request: { id: number; method: string }, attempt: number) => unknown) | undefined;
+
+  // Server process that answers through `respond`, or never when it is unset
+  const serverProcess = {
+    kill: () => true,
+    stdin: {
+      write: (data: string) => {
+        const request = JSON.parse(data.slice(data.indexOf('\r\n\r\n') + 4));
+        written.push(request);
+        const response = respond?.(request, written.length);
+        if (response) {
+          queueMicrotask(() =>
+            (client as any)
+              .getConnection(serverProcess)
+              .handleMessage({ jsonrpc: '2.0', id: request.id, ...response })
+          );
+        }
+      },
+    },
+  };
+
+  const createClient = (config: Record<string, unknown>) => {
+    writeFileSync(CONFIG_PATH, JSON.stringify(config));
+    client = new LSPClient(CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
+    (client as any).processConfigs.set(serverProcess, (client as any).config.servers[0]);
+  };
+
+  const typescript = { extensions: ['ts'], command: ['typescript-language-server', '--stdio'] };
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    written = [];
+    respond = undefined;
+  });
+
+  afterEach(async () => {
+    await client.dispose();
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should use the timeout configured for the method, then the default', async () => {
+    createClient({
+      timeouts: { default: 30, 'textDocument/hover': 10 },
+      servers: [typescript],
+    });
+    const sendRequest = (method: string, timeout?: number) =>
+      (client as any).sendRequest(serverProcess, method, {}, timeout);
+
+    await expect(sendRequest('textDocument/hover')).rejects.toThrow('(10ms)');
+    await expect(sendRequest('textDocument/hover', 20)).rejects.toThrow('(10ms)');
+    await expect(sendRequest('textDocument/definition', 20)).rejects.toThrow('(20ms)');
+    await expect(sendRequest('textDocument/definition')).rejects.toThrow('(30ms)');
+  });
+
+  it('should let server timeouts override the top-level ones key by key', async () => {
+    createClient({
+      timeouts: { default: 30, 'textDocument/hover': 10 },
+      servers: [{ ...typescript, timeouts: { 'textDocument/hover': 20 } }],
+    });
+    const sendRequest = (method: string) => (client as any).sendRequest(serverProcess, method, {});
+
+    await expect(sendRequest('textDocument/hover')).rejects.toThrow('(20ms)');
+    await expect(sendRequest('textDocument/definition')).rejects.toThrow('(30ms)');
+  });
+
+  it('should retry requests failing with ContentModified', async () => {
+    createClient({ servers: [typescript] });
+    respond = (_request, attempt) =>
+      attempt < 3
+        ? { error: { code: -32801, message: 'Content modified' } }
+        : { result: { contents: 'hover' } };
+
+    const result = await (client as any).sendRequest(serverProcess, 'textDocument/hover', {});
+
+    expect(result).toEqual({ contents: 'hover' });
+    expect(written.map((request) => request.method)).toEqual(Array(3).fill('textDocument/hover'));
+  });
+
+  it('should give up after the maximum number of retries', async () => {
+    createClient({ servers: [typescript] });
+    respond = () => ({ error: { code: -32802, message: 'Server cancelled' } });
+
+    const error = await (client as any)
+      .sendRequest(serverProcess, 'textDocument/references', {})
+      .catch((reason: unknown) => reason);
+
+    expect(error).toBeInstanceOf(LSPRequestError);
+    expect(error.code).toBe(-32802);
+    expect(written).toHaveLength(4);
+  });
+
+  it('should not retry other errors or cancellations the server asks not to retry', async () => {
+    createClient({ servers: [typescript] });
+    respond = (request) =>
+      request.method === 'textDocument/diagnostic'
+        ? { error: { code: -32802, message: 'Cancelled', data: { retriggerRequest: false } } }
+        : { error: { code: -32603, message: 'Internal error' } };
+
+    await expect(
+      (client as any).sendRequest(serverProcess, 'textDocument/diagnostic', {})
+    ).rejects.toThrow('Cancelled');
+    await expect(
+      (client as any).sendRequest(serverProcess, 'textDocument/definition', {})
+    ).rejects.toThrow('Internal error');
+    expect(written).toHaveLength(2);
+  });
+
+  it('should wait for the workspace index as long as configured', async () => {
+    createClient({ servers: [{ ...typescript, timeouts: { indexing: 10 } }] });
+    const serverState = {
+      process: serverProcess,
+      config: (client as any).config.servers[0],
+      workspaceIndexed: false,
+      filesDiscovered: 0,
+    };
+    respond = () => ({ result: [] });
+
+    const startedAt = Date.now();
+    await (client as any).waitForWorkspaceIndexing(serverState);
+
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+    expect(serverState.workspaceIndexed).toBe(true);
+  });
+});
@@ -0,0 +1,180 @@
+import { afterEach, beforeEach, describe, expect, it, jest, spyOn } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPClient } from './lsp-client.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-restart-policy-test`
+  : '/tmp/cclsp-restart-policy-test';
+
+const CONFIG_PATH = join(TEST_DIR, 'cclsp.json');
+const FILE_PATH = join(TEST_DIR, 'main.py');
+
+describe('restart policy', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+  let startServerSpy: ReturnType<typeof spyOn>;
+
+  const createClient = (server: Record<string, unknown>) => {
+    writeFileSync(
+      CONFIG_PATH,
+      JSON.stringify({
+        servers: [{ extensions: ['py'], command: ['pylsp'], rootDir: TEST_DIR, ...server }],
+      })
+    );
+    client = new LSPClient(CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
+    startServerSpy = spyOn(client as any, 'startServer').mockImplementation(
+      async (config: unknown, rootDir: unknown) => ({
+        process: { kill: jest.fn(), pid: 42, stdin: { write: jest.fn() } },
+        config,
+        rootDir,
+        openFiles: new Set(),
+        startTime: Date.now(),
+        lastActivity: Date.now(),
+        requestCount: 0,
+      })
+    );
+  };
+
+  const sendFakeRequest = (serverState: any): Promise<unknown> =>
+    (client as any).sendRequest(serverState.process, 'textDocument/hover', {});
+
+  // Answer a request and wait until the client has counted the response
+  const respond = async (serverState: any, id: number, request?: Promise<unknown>) => {
+    (client as any)
+      .getConnection(serverState.process)
+      .handleMessage({ jsonrpc: '2.0', id, result: null });
+    await request;
+  };
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(async () => {
+    await client.dispose();
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should restart after maxRequests once no requests are pending', async () => {
+    createClient({ maxRequests: 2 });
+    const serverState = await (client as any).getServer(FILE_PATH);
+    const requests = [1, 2, 3].map(() => sendFakeRequest(serverState));
+
+    await respond(serverState, 1, requests[0]);
+    await respond(serverState, 2, requests[1]);
+
+    expect(serverState.process.kill).not.toHaveBeenCalled();
+    expect(client.getServerStatus()).toMatchObject([
+      { requestCount: 2, maxRequests: 2, pendingRestart: 'answered 2 requests' },
+    ]);
+
+    await respond(serverState, 3, requests[2]);
+    const restarted = await (client as any).getServer(FILE_PATH);
+
+    expect(serverState.process.kill).toHaveBeenCalled();
+    expect(restarted).not.toBe(serverState);
+    expect(startServerSpy).toHaveBeenCalledTimes(2);
+    expect(client.getServerStatus()).toMatchObject([
+      { requestCount: 0, pendingRestart: undefined },
+    ]);
+  });
+
+  it('should restart servers using more memory than maxMemory', async () => {
+    createClient({ maxMemory: 100 });
+    const sampleSpy = spyOn(client as any, 'sampleServerMemory').mockResolvedValue(
+      50 * 1024 * 1024
+    );
+    const serverState = await (client as any).getServer(FILE_PATH);
+
+    await (client as any).checkServerMemory(serverState);
+
+    expect(sampleSpy).toHaveBeenCalledWith(42);
+    expect(serverState.process.kill).not.toHaveBeenCalled();
+    expect(client.getServerStatus()).toMatchObject([
+      { memoryBytes: 50 * 1024 * 1024, maxMemoryBytes: 100 * 1024 * 1024 },
+    ]);
+
+    sampleSpy.mockResolvedValue(150 * 1024 * 1024);
+    await (client as any).checkServerMemory(serverState);
+    const restarted = await (client as any).getServer(FILE_PATH);
+
+    expect(serverState.process.kill).toHaveBeenCalled();
+    expect(restarted).not.toBe(serverState);
+    expect(startServerSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should restart once a pending request times out', async () => {
+    createClient({ maxMemory: 100 });
+    spyOn(client as any, 'sampleServerMemory').mockResolvedValue(150 * 1024 * 1024);
+    const serverState = await (client as any).getServer(FILE_PATH);
+    const request = (client as any).sendRequest(serverState.process, 'textDocument/hover', {}, 50);
+
+    await (client as any).checkServerMemory(serverState);
+    expect(serverState.process.kill).not.toHaveBeenCalled();
+
+    await expect(request).rejects.toThrow('LSP request timeout');
+    const restarted = await (client as any).getServer(FILE_PATH);
+
+    expect(serverState.process.kill).toHaveBeenCalled();
+    expect(restarted).not.toBe(serverState);
+    expect(startServerSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should restart only after retries of a pending request are done', async () => {
+    createClient({ maxMemory: 100 });
+    spyOn(client as any, 'sampleServerMemory').mockResolvedValue(150 * 1024 * 1024);
+    const serverState = await (client as any).getServer(FILE_PATH);
+    const connection = (client as any).getConnection(serverState.process);
+    serverState.process.stdin.write.mockImplementation((data: string) => {
+      const message = JSON.parse(data.slice(data.indexOf('\r\n\r\n') + 4));
+      if (message.id === 2) {
+        queueMicrotask(() => connection.handleMessage({ jsonrpc: '2.0', id: 2, result: 'hover' }));
+      }
+    });
+    const request = sendFakeRequest(serverState);
+
+    await (client as any).checkServerMemory(serverState);
+    connection.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      error: { code: -32801, message: 'Content modified' },
+    });
+
+    expect(await request).toBe('hover');
+    const restarted = await (client as any).getServer(FILE_PATH);
+
+    expect(serverState.process.kill).toHaveBeenCalled();
+    expect(restarted).not.toBe(serverState);
+  });
+
+  it('should finish pending restarts before dispose returns, without starting a server', async () => {
+    createClient({ maxMemory: 100 });
+    spyOn(client as any, 'sampleServerMemory').mockResolvedValue(150 * 1024 * 1024);
+    const serverState = await (client as any).getServer(FILE_PATH);
+
+    await (client as any).checkServerMemory(serverState);
+    await client.dispose();
+
+    expect(serverState.process.kill).toHaveBeenCalled();
+    expect((client as any).restarts.size).toBe(0);
+    expect(startServerSpy).toHaveBeenCalledTimes(1);
+    expect(client.getServerStatus()).toEqual([]);
+  });
+
+  it('should only sample memory for servers with maxMemory', async () => {
+    createClient({});
+    startServerSpy.mockRestore();
+    const setIntervalSpy = spyOn(global, 'setInterval');
+
+    try {
+      (client as any).setupMemoryMonitor({ config: { extensions: ['py'], command: ['pylsp'] } });
+      expect(setIntervalSpy).not.toHaveBeenCalled();
+    } finally {
+      setIntervalSpy.mockRestore();
+    }
+  });
+});
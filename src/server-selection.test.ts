@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { mkdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import {
+  globToRegExp,
+  matchesGlob,
+  selectSecondaryServers,
+  selectServer,
+} from './server-selection.js';
+import type { LSPServerConfig } from './types.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/server-selection-test`
+  : '/tmp/server-selection-test';
+
+describe('globToRegExp', () => {
+  it('should match single and double star wildcards', () => {
+    expect(globToRegExp('*.ts').test('index.ts')).toBe(true);
+    expect(globToRegExp('*.ts').test('src/index.ts')).toBe(false);
+    expect(globToRegExp('src/**/*.ts').test('src/index.ts')).toBe(true);
+    expect(globToRegExp('src/**/*.ts').test('src/a/b/index.ts')).toBe(true);
+    expect(globToRegExp('src/**').test('src/a/b/index.ts')).toBe(true);
+    expect(globToRegExp('file?.ts').test('file1.ts')).toBe(true);
+  });
+
+  it('should support alternatives and escape regex characters', () => {
+    expect(globToRegExp('*.{test,spec}.ts').test('app.spec.ts')).toBe(true);
+    expect(globToRegExp('*.{test,spec}.ts').test('app.unit.ts')).toBe(false);
+    expect(globToRegExp('a+b.ts').test('a+b.ts')).toBe(true);
+    expect(globToRegExp('a+b.ts').test('aab.ts')).toBe(false);
+  });
+});
+
+describe('matchesGlob', () => {
+  it('should match patterns without a slash against the file name', () => {
+    expect(matchesGlob('/repo/src/app.test.ts', '*.test.ts', '/repo')).toBe(true);
+  });
+
+  it('should match patterns with a slash against the path relative to rootDir', () => {
+    expect(matchesGlob('/repo/scripts/build.ts', 'scripts/**', '/repo')).toBe(true);
+    expect(matchesGlob('/repo/src/build.ts', 'scripts/**', '/repo')).toBe(false);
+    expect(matchesGlob('/other/scripts/build.ts', '/other/scripts/*.ts', '/repo')).toBe(true);
+  });
+});
+
+describe('selectServer', () => {
+  const typescript: LSPServerConfig = {
+    extensions: ['ts', 'tsx'],
+    command: ['typescript-language-server', '--stdio'],
+    rootDir: TEST_DIR,
+  };
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(join(TEST_DIR, 'edge/functions'), { recursive: true });
+    writeFileSync(join(TEST_DIR, 'edge/deno.json'), '{}');
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should select by extension when no other rule applies', () => {
+    const match = selectServer([typescript], join(TEST_DIR, 'src/index.ts'));
+
+    expect(match?.config).toBe(typescript);
+    expect(match?.rule).toBe('extension');
+  });
+
+  it('should prefer filePatterns over extensions regardless of order', () => {
+    const tests: LSPServerConfig = {
+      extensions: ['ts'],
+      command: ['test-server'],
+      rootDir: TEST_DIR,
+      filePatterns: ['**/*.test.ts'],
+    };
+    const servers = [typescript, tests];
+
+    expect(selectServer(servers, join(TEST_DIR, 'src/app.test.ts'))).toMatchObject({
+      config: tests,
+      rule: 'filePatterns',
+      detail: 'file pattern "**/*.test.ts"',
+    });
+    expect(selectServer(servers, join(TEST_DIR, 'src/app.ts'))?.config).toBe(typescript);
+  });
+
+  it('should only use a rootMarkers server below a directory containing a marker', () => {
+    const deno: LSPServerConfig = {
+      extensions: ['ts'],
+      command: ['deno', 'lsp'],
+      rootDir: TEST_DIR,
+      rootMarkers: ['deno.json'],
+    };
+    const servers = [typescript, deno];
+
+    const match = selectServer(servers, join(TEST_DIR, 'edge/functions/handler.ts'));
+    expect(match?.config).toBe(deno);
+    expect(match?.rule).toBe('rootMarkers');
+    expect(match?.detail).toContain(join(TEST_DIR, 'edge'));
+
+    expect(selectServer(servers, join(TEST_DIR, 'web/app.ts'))?.config).toBe(typescript);
+    expect(selectServer([deno], join(TEST_DIR, 'web/app.ts'))).toBeNull();
+  });
+
+  it('should never select a server whose excludePatterns match', () => {
+    const excluding: LSPServerConfig = { ...typescript, excludePatterns: ['generated/**'] };
+    const fallback: LSPServerConfig = { extensions: ['ts'], command: ['fallback-server'] };
+
+    expect(selectServer([excluding, fallback], join(TEST_DIR, 'generated/api.ts'))?.config).toBe(
+      fallback
+    );
+    expect(selectServer([excluding], join(TEST_DIR, 'generated/api.ts'))).toBeNull();
+    expect(selectServer([excluding], join(TEST_DIR, 'src/api.ts'))?.config).toBe(excluding);
+  });
+
+  it('should never select a secondary server as the primary server', () => {
+    const eslint: LSPServerConfig = {
+      name: 'eslint',
+      extensions: ['ts', 'js'],
+      command: ['vscode-eslint-language-server', '--stdio'],
+      secondary: true,
+    };
+    const servers = [eslint, typescript];
+
+    expect(selectServer(servers, join(TEST_DIR, 'src/index.ts'))?.config).toBe(typescript);
+    expect(selectServer(servers, join(TEST_DIR, 'src/index.js'))).toBeNull();
+    expect(
+      selectSecondaryServers(servers, join(TEST_DIR, 'src/index.ts')).map((match) => match.config)
+    ).toEqual([eslint]);
+  });
+});
@@ -0,0 +1,153 @@
+import { basename, isAbsolute, relative, resolve, sep } from 'node:path';
+import { findNearestProjectRoot } from './project-roots.js';
+import type { LSPServerConfig } from './types.js';
+
+/**
+ * The server config chosen for a file and the rule that selected it
+ */
+export interface ServerMatch {
+  config: LSPServerConfig;
+  rule: 'filePatterns' | 'rootMarkers' | 'extension';
+  detail: string; // Human readable description of what matched
+}
+
+/**
+ * Convert a glob to a regular expression. Supports `**` (any number of directories),
+ * `*` and `?` (within a path segment) and `{a,b}` alternatives.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i] as string;
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // `**/` matches zero or more directories, a trailing `**` matches everything below
+        const followedBySlash = pattern[i + 2] === '/';
+        source += followedBySlash ? '(?:.*/)?' : '.*';
+        i += followedBySlash ? 2 : 1;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = pattern.indexOf('}', i);
+      if (end === -1) {
+        source += '\\{';
+      } else {
+        const alternatives = pattern.slice(i + 1, end).split(',');
+        source += `(?:${alternatives.map((alt) => alt.replace(/[.+^${}()|[\]\\*?]/g, '\\$&')).join('|')})`;
+        i = end;
+      }
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check a file against a glob. Patterns without a slash match the file name in any
+ * directory, other patterns match the path relative to `rootDir` (or the absolute path).
+ */
+export function matchesGlob(filePath: string, pattern: string, rootDir: string): boolean {
+  const absolutePath = resolve(filePath);
+  const regex = globToRegExp(pattern.replace(/\\/g, '/'));
+
+  if (!pattern.includes('/')) {
+    return regex.test(basename(absolutePath));
+  }
+
+  const relativePath = relative(rootDir, absolutePath);
+  if (!isAbsolute(relativePath) && relativePath.split(sep)[0] !== '..') {
+    if (regex.test(relativePath.split(sep).join('/'))) {
+      return true;
+    }
+  }
+  return regex.test(absolutePath.split(sep).join('/'));
+}
+
+/**
+ * Check whether a single server config handles a file, and by which rule
+ */
+export function matchServer(config: LSPServerConfig, filePath: string): ServerMatch | null {
+  const rootDir = resolve(config.rootDir || process.cwd());
+  if (config.excludePatterns?.some((pattern) => matchesGlob(filePath, pattern, rootDir))) {
+    return null;
+  }
+
+  if (config.filePatterns?.length) {
+    const pattern = config.filePatterns.find((pattern) => matchesGlob(filePath, pattern, rootDir));
+    if (!pattern) {
+      return null;
+    }
+    if (
+      config.rootMarkers?.length &&
+      !findNearestProjectRoot(resolve(filePath), config.rootMarkers, rootDir)
+    ) {
+      return null;
+    }
+    return { config, rule: 'filePatterns', detail: `file pattern "${pattern}"` };
+  }
+
+  const extension = filePath.split('.').pop();
+  if (!extension || !config.extensions.includes(extension)) {
+    return null;
+  }
+
+  if (config.rootMarkers?.length) {
+    const root = findNearestProjectRoot(resolve(filePath), config.rootMarkers, rootDir);
+    if (!root) {
+      return null;
+    }
+    return {
+      config,
+      rule: 'rootMarkers',
+      detail: `extension "${extension}" with root marker in ${root}`,
+    };
+  }
+
+  return { config, rule: 'extension', detail: `extension "${extension}"` };
+}
+
+const RULE_PRECEDENCE: ServerMatch['rule'][] = ['filePatterns', 'rootMarkers', 'extension'];
+
+/**
+ * Pick the primary server config for a file. Secondary servers are never picked. In order
+ * of precedence:
+ *
+ * 1. Configs whose `excludePatterns` match the file are never selected
+ * 2. A config whose `filePatterns` match the file (its `extensions` are not checked)
+ * 3. A config with `rootMarkers` handling the file's extension, when one of the markers
+ *    is found in a directory above the file
+ * 4. A config without `filePatterns` or `rootMarkers` handling the file's extension
+ *
+ * Within the same level, the config listed first wins.
+ */
+export function selectServer(servers: LSPServerConfig[], filePath: string): ServerMatch | null {
+  const matches = servers
+    .filter((config) => !config.secondary)
+    .map((config) => matchServer(config, filePath))
+    .filter((match): match is ServerMatch => match !== null);
+
+  for (const rule of RULE_PRECEDENCE) {
+    const match = matches.find((match) => match.rule === rule);
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the secondary server configs that attach to a file next to its primary server
+ */
+export function selectSecondaryServers(
+  servers: LSPServerConfig[],
+  filePath: string
+): ServerMatch[] {
+  return servers
+    .filter((config) => config.secondary)
+    .map((config) => matchServer(config, filePath))
+    .filter((match): match is ServerMatch => match !== null);
+}
@@ -0,0 +1,214 @@
+import { afterEach, beforeEach, describe, expect, it, spyOn } from 'bun:test';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPClient } from './lsp-client.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-server-shutdown-test`
+  : '/tmp/cclsp-server-shutdown-test';
+
+const FILE_PATH = join(TEST_DIR, 'main.py');
+const LOG_PATH = join(TEST_DIR, 'server.log');
+const CHILD_PID_PATH = join(TEST_DIR, 'child.pid');
+
+// Stand-in language server. With STUBBORN set it ignores `shutdown` and SIGTERM, and
+// starts a child process the way wrapper commands like npx do.
+const SERVER_SCRIPT = `
+  const fs = require('node:fs');
+  const log = (line) => fs.appendFileSync(${JSON.stringify(LOG_PATH)}, line + '\\n');
+  const send = (message) => {
+    const body = JSON.stringify({ jsonrpc: '2.0', ...message });
+    process.stdout.write('Content-Length: ' + Buffer.byteLength(body) + '\\r\\n\\r\\n' + body);
+  };
+  const stubborn = Boolean(process.env.STUBBORN);
+  if (stubborn) {
+    process.on('SIGTERM', () => log('SIGTERM'));
+    const child = require('node:child_process').spawn(
+      process.execPath, ['-e', 'setInterval(() => {}, 1000)'], { stdio: 'ignore' }
+    );
+    fs.writeFileSync(${JSON.stringify(CHILD_PID_PATH)}, String(child.pid));
+  }
+
+  const handle = (message) => {
+    if (message.method === 'initialize') {
+      send({ id: message.id, result: { capabilities: {} } });
+      send({ method: 'initialized', params: {} });
+    } else if (message.method === 'shutdown') {
+      log('shutdown');
+      if (!stubborn) send({ id: message.id, result: null });
+    } else if (message.method === 'exit') {
+      log('exit');
+      if (!stubborn) process.exit(0);
+    }
+  };
+
+  let buffer = Buffer.alloc(0);
+  process.stdin.on('data', (chunk) => {
+    buffer = Buffer.concat([buffer, chunk]);
+    for (;;) {
+      const headerEnd = buffer.indexOf('\\r\\n\\r\\n');
+      if (headerEnd === -1) return;
+      const length = Number(/Content-Length: (\\d+)/.exec(buffer.subarray(0, headerEnd).toString())[1]);
+      if (buffer.length < headerEnd + 4 + length) return;
+      handle(JSON.parse(buffer.subarray(headerEnd + 4, headerEnd + 4 + length).toString()));
+      buffer = buffer.subarray(headerEnd + 4 + length);
+    }
+  });
+`;
+
+const isRunning = (pid: number): boolean => {
+  try {
+    process.kill(pid, 0);
+  } catch {
+    return false;
+  }
+  // Killed processes linger as zombies until their new parent reaps them
+  try {
+    return !/\) Z /.test(readFileSync(`/proc/${pid}/stat`, 'utf-8'));
+  } catch {
+    return true;
+  }
+};
+
+describe('server shutdown', () => {
+  let stderrSpy: ReturnType<typeof spyOn>;
+
+  const createClient = (env: Record<string, string> = {}) => {
+    const configPath = join(TEST_DIR, 'cclsp.json');
+    writeFileSync(
+      configPath,
+      JSON.stringify({
+        servers: [
+          {
+            extensions: ['py'],
+            command: [process.execPath, '-e', SERVER_SCRIPT],
+            rootDir: TEST_DIR,
+            env,
+          },
+        ],
+      })
+    );
+    return new LSPClient(configPath, { cwd: TEST_DIR, homeDir: TEST_DIR });
+  };
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(FILE_PATH, 'print(1)\n');
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+  });
+
+  afterEach(() => {
+    stderrSpy.mockRestore();
+    if (existsSync(CHILD_PID_PATH)) {
+      const pid = Number(readFileSync(CHILD_PID_PATH, 'utf-8'));
+      if (isRunning(pid)) {
+        process.kill(pid, 'SIGKILL');
+      }
+    }
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should send shutdown and exit and let the server exit by itself', async () => {
+    const client = createClient();
+    const serverState = await (client as any).getServer(FILE_PATH);
+
+    await client.dispose();
+
+    expect(readFileSync(LOG_PATH, 'utf-8')).toBe('shutdown\nexit\n');
+    expect(serverState.process.exitCode).toBe(0);
+    expect(serverState.process.signalCode).toBeNull();
+  });
+
+  it('should shut down gracefully when the tool call that stops the server is cancelled', async () => {
+    const client = createClient();
+    const serverState = await (client as any).getServer(FILE_PATH);
+    const controller = new AbortController();
+    controller.abort();
+
+    await client.withCancellation(controller.signal, () => client.dispose());
+
+    expect(readFileSync(LOG_PATH, 'utf-8')).toBe('shutdown\nexit\n');
+    expect(serverState.process.exitCode).toBe(0);
+  });
+
+  it('should escalate to SIGTERM and SIGKILL for the whole process group', async () => {
+    const client = createClient({ STUBBORN: '1' });
+    const serverState = await (client as any).getServer(FILE_PATH);
+    const childPid = Number(readFileSync(CHILD_PID_PATH, 'utf-8'));
+    expect(isRunning(childPid)).toBe(true);
+
+    await client.dispose();
+
+    expect(readFileSync(LOG_PATH, 'utf-8')).toBe('shutdown\nSIGTERM\n');
+    expect(serverState.process.signalCode).toBe('SIGKILL');
+    expect(isRunning(childPid)).toBe(false);
+  }, 10000);
+
+  it('should kill the process groups of running servers without waiting for them', async () => {
+    const client = createClient();
+    const serverState = await (client as any).getServer(FILE_PATH);
+    const exited = new Promise((resolve) => serverState.process.once('exit', resolve));
+
+    client.killServers();
+    await exited;
+
+    expect(existsSync(LOG_PATH)).toBe(false);
+    expect(serverState.process.signalCode).toBe('SIGTERM');
+    await client.dispose();
+  });
+
+  it('should stop servers that finish starting after dispose and start no more', async () => {
+    const client = createClient();
+    const startServer = (client as any).startServer.bind(client);
+    let onStart = () => {};
+    const startCalled = new Promise<void>((resolve) => {
+      onStart = resolve;
+    });
+    spyOn(client as any, 'startServer').mockImplementation((...args: unknown[]) => {
+      onStart();
+      return startServer(...args);
+    });
+    const starting = (client as any).getServer(FILE_PATH);
+
+    await startCalled;
+    await client.dispose();
+
+    await expect(starting).rejects.toThrow('the LSP client was disposed');
+    expect(readFileSync(LOG_PATH, 'utf-8')).toBe('shutdown\nexit\n');
+    await expect((client as any).getServer(FILE_PATH)).rejects.toThrow(
+      'the LSP client was disposed'
+    );
+    expect(client.getServerStatus()).toEqual([]);
+  });
+
+  it('should not restart servers once disposed', async () => {
+    const client = createClient();
+    await (client as any).getServer(FILE_PATH);
+    const restarting = client.restartServers();
+
+    await client.dispose();
+
+    const result = await restarting;
+    expect(result.success).toBe(false);
+    expect(result.failed[0]).toContain('the LSP client was disposed');
+    expect(readFileSync(LOG_PATH, 'utf-8')).toBe('shutdown\nexit\n');
+    expect((await client.restartServers()).success).toBe(false);
+    expect(client.getServerStatus()).toEqual([]);
+  });
+
+  it('should shut down the old process before starting the new one on restart', async () => {
+    const client = createClient();
+    const serverState = await (client as any).getServer(FILE_PATH);
+
+    const result = await client.restartServers();
+    const restarted = await (client as any).getServer(FILE_PATH);
+
+    expect(result.success).toBe(true);
+    expect(serverState.process.exitCode).toBe(0);
+    expect(restarted).not.toBe(serverState);
+    expect(restarted.process.exitCode).toBeNull();
+
+    await client.dispose();
+  });
+});
@@ -1,4 +1,5 @@
-import { beforeEach, describe, expect, mock, test } from 'bun:test';
+import { afterAll, beforeEach, describe, expect, mock, test } from 'bun:test';
+import * as fs from 'node:fs';
 import { writeFileSync } from 'node:fs';
 import { LANGUAGE_SERVERS, generateConfig } from './language-servers.js';
 
@@ -8,14 +9,21 @@ interface GeneratedConfig {
     extensions: string[];
     command: string[];
     rootDir: string;
-    restartInterval?: number;
+    maxMemory?: number;
+    initializationOptions?: unknown;
   }>;
 }
 
-// Mock fs module
+// Mock fs module. Module mocks apply to every test file loaded later, so everything
+// except writeFileSync is the real module and the real one is put back afterwards.
+const realFs = { ...fs };
 mock.module('node:fs', () => ({
+  ...realFs,
   writeFileSync: mock(() => {}),
 }));
+afterAll(() => {
+  mock.module('node:fs', () => realFs);
+});
 
 // Mock inquirer module
 const mockPrompt = mock(() => Promise.resolve({}));
@@ -121,7 +129,7 @@ describe('generateConfig', () => {
     expect(serverNames).toContain('go');
   });
 
-  test('should include restartInterval for Python server', () => {
+  test('should include maxMemory for Python server', () => {
     const config = generateConfig(['python']);
     expect(config).toHaveProperty('servers');
     expect(Array.isArray((config as GeneratedConfig).servers)).toBe(true);
@@ -129,10 +137,11 @@ describe('generateConfig', () => {
 
     const pythonServer = (config as GeneratedConfig).servers[0];
     expect(pythonServer?.extensions).toContain('py');
-    expect(pythonServer?.restartInterval).toBe(5);
+    expect(pythonServer?.maxMemory).toBe(1024);
+    expect(pythonServer).not.toHaveProperty('restartInterval');
   });
 
-  test('should not include restartInterval for servers without it configured', () => {
+  test('should not include maxMemory for servers without it configured', () => {
     const config = generateConfig(['typescript']);
     expect(config).toHaveProperty('servers');
     expect(Array.isArray((config as GeneratedConfig).servers)).toBe(true);
@@ -140,7 +149,19 @@ describe('generateConfig', () => {
 
     const typescriptServer = (config as GeneratedConfig).servers[0];
     expect(typescriptServer?.extensions).toContain('ts');
-    expect(typescriptServer?.restartInterval).toBeUndefined();
+    expect(typescriptServer?.maxMemory).toBeUndefined();
+  });
+
+  test('should include pylsp initializationOptions only for the Python server', () => {
+    const config = generateConfig(['python', 'typescript']) as GeneratedConfig;
+
+    const pythonServer = config.servers.find((server) => server.extensions.includes('py'));
+    const typescriptServer = config.servers.find((server) => server.extensions.includes('ts'));
+
+    expect(pythonServer?.initializationOptions).toMatchObject({
+      settings: { pylsp: { plugins: { jedi_definition: { enabled: true } } } },
+    });
+    expect(typescriptServer?.initializationOptions).toBeUndefined();
   });
 
   test('should handle invalid language names gracefully', () => {
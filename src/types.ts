@@ -3,10 +3,32 @@ export interface LSPServerConfig {
   command: string[];
   rootDir?: string;
   restartInterval?: number; // in minutes, optional auto-restart interval
-}
+  maxMemory?: number; // in megabytes, restart the server once it uses more memory than this
+  maxRequests?: number; // restart the server after answering this many requests
+  idleTimeout?: number; // in minutes, stop the server when unused this long (0 keeps it running)
+  initializationOptions?: unknown; // sent as-is in the initialize request
+  settings?: Record<string, unknown>; // served through workspace/configuration and didChangeConfiguration
+  env?: Record<string, string>; // extra environment variables for the server process
+  cwd?: string; // working directory for the server process, relative to the project root
+  filePatterns?: string[]; // globs selecting files for this server instead of `extensions`
+  rootMarkers?: string[]; // only use this server below a directory containing one of these files
+  excludePatterns?: string[]; // globs for files this server must never handle
+  name?: string; // label for the server in merged results, defaults to its command
+  secondary?: boolean; // attach next to the primary server for diagnostics, code actions and completions
+  timeouts?: RequestTimeouts; // overrides the top-level timeouts key by key
+}
+
+/**
+ * Timeouts in milliseconds, keyed by LSP method (e.g. `textDocument/references`) or one of:
+ * `default` for requests without their own timeout, `startup` for the server to report
+ * ready after `initialize`, and `indexing` for the workspace index before workspace queries
+ */
+export type RequestTimeouts = Record<string, number>;
 
 export interface Config {
   servers: LSPServerConfig[];
+  idleTimeout?: number; // in minutes, default idleTimeout for all servers
+  timeouts?: RequestTimeouts;
 }
 
 export interface Position {
@@ -22,6 +44,13 @@ export interface Location {
   };
 }
 
+export interface LocationLink {
+  originSelectionRange?: Range;
+  targetUri: string;
+  targetRange: Range;
+  targetSelectionRange: Range;
+}
+
 export interface DefinitionResult {
   locations: Location[];
 }
@@ -443,8 +472,92 @@ export interface DeletionAnalysisResult {
   };
 }
 
+export enum TextDocumentSyncKind {
+  None = 0,
+  Full = 1,
+  Incremental = 2,
+}
+
+export interface TextDocumentSyncOptions {
+  openClose?: boolean;
+  change?: TextDocumentSyncKind;
+  willSave?: boolean;
+  willSaveWaitUntil?: boolean;
+  save?: boolean | { includeText?: boolean };
+}
+
+export type TextDocumentContentChangeEvent =
+  | {
+      range: Range;
+      rangeLength?: number;
+      text: string;
+    }
+  | {
+      text: string;
+    };
+
+export interface CallHierarchyItem {
+  name: string;
+  kind: SymbolKind;
+  tags?: SymbolTag[];
+  detail?: string;
+  uri: string;
+  range: Range;
+  selectionRange: Range;
+  data?: unknown;
+}
+
+export interface CallHierarchyIncomingCall {
+  from: CallHierarchyItem;
+  fromRanges: Range[];
+}
+
+export interface CallHierarchyOutgoingCall {
+  to: CallHierarchyItem;
+  fromRanges: Range[];
+}
+
+/**
+ * A node in an expanded call tree. `callRanges` are the call sites linking the node to its
+ * parent, `cycle` marks a node that already appears higher up in the same branch.
+ */
+export interface CallHierarchyNode {
+  item: CallHierarchyItem;
+  callRanges: Range[];
+  children: CallHierarchyNode[];
+  cycle?: boolean;
+}
+
+export interface TypeHierarchyItem {
+  name: string;
+  kind: SymbolKind;
+  tags?: SymbolTag[];
+  detail?: string;
+  uri: string;
+  range: Range;
+  selectionRange: Range;
+  data?: unknown;
+}
+
+/**
+ * A node in an expanded type tree. `cycle` marks a type that already appears higher up
+ * in the same branch.
+ */
+export interface TypeHierarchyNode {
+  item: TypeHierarchyItem;
+  children: TypeHierarchyNode[];
+  cycle?: boolean;
+}
+
+export interface TypeHierarchy {
+  item: TypeHierarchyItem;
+  supertypes: TypeHierarchyNode[];
+  subtypes: TypeHierarchyNode[];
+}
+
 export interface ServerCapabilities {
-  textDocumentSync?: unknown;
+  positionEncoding?: string; // 'utf-8', 'utf-16' or 'utf-32', UTF-16 when missing
+  textDocumentSync?: TextDocumentSyncOptions | TextDocumentSyncKind;
   hoverProvider?: boolean | unknown;
   completionProvider?: {
     triggerCharacters?: string[];
@@ -458,6 +571,8 @@ export interface ServerCapabilities {
   typeDefinitionProvider?: boolean | unknown;
   implementationProvider?: boolean | unknown;
   referencesProvider?: boolean | unknown;
+  callHierarchyProvider?: boolean | unknown;
+  typeHierarchyProvider?: boolean | unknown;
   documentHighlightProvider?: boolean | unknown;
   documentSymbolProvider?: boolean | unknown;
   workspaceSymbolProvider?: boolean | unknown;
@@ -0,0 +1,544 @@
+import { afterEach, beforeEach, describe, expect, it, jest, spyOn } from 'bun:test';
+import { existsSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { LSPClient } from './lsp-client.js';
+import { pathToUri } from './utils.js';
+import { WorkspaceEditTransaction } from './workspace-edit.js';
+
+const TEST_DIR = process.env.RUNNER_TEMP
+  ? `${process.env.RUNNER_TEMP}/cclsp-workspace-edit-test`
+  : '/tmp/cclsp-workspace-edit-test';
+
+const TEST_CONFIG_PATH = join(TEST_DIR, 'test-config.json');
+
+describe('applyWorkspaceEdit resource operations', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+
+  const createServerState = (fileOperations?: unknown) => ({
+    initializationPromise: Promise.resolve(),
+    process: { stdin: { write: jest.fn() } },
+    initialized: true,
+    openFiles: new Set<string>(),
+    documents: new Map(),
+    diagnostics: new Map(),
+    config: {
+      extensions: ['ts'],
+      command: ['typescript-language-server', '--stdio'],
+    },
+    capabilities: fileOperations ? { workspace: { fileOperations } } : {},
+  });
+
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(
+      TEST_CONFIG_PATH,
+      JSON.stringify({
+        servers: [
+          {
+            extensions: ['ts'],
+            command: ['typescript-language-server', '--stdio'],
+            rootDir: TEST_DIR,
+          },
+        ],
+      })
+    );
+
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    client = new LSPClient(TEST_CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
+  });
+
+  afterEach(() => {
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should create a file and fill it with following text edits', async () => {
+    const filePath = join(TEST_DIR, 'nested', 'created.ts');
+    const uri = pathToUri(filePath);
+
+    const result = await client.applyWorkspaceEdit({
+      documentChanges: [
+        { kind: 'create', uri },
+        {
+          textDocument: { uri, version: null },
+          edits: [
+            {
+              range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+              newText: 'export const created = true;\n',
+            },
+          ],
+        },
+      ],
+    });
+
+    expect(readFileSync(filePath, 'utf-8')).toBe('export const created = true;\n');
+    expect(result.content).toContain(`Created file: ${filePath}`);
+  });
+
+  it('should honor ignoreIfExists and overwrite when creating files', async () => {
+    const filePath = join(TEST_DIR, 'existing.ts');
+    writeFileSync(filePath, 'original');
+    const uri = pathToUri(filePath);
+
+    await client.applyWorkspaceEdit({
+      documentChanges: [{ kind: 'create', uri, options: { ignoreIfExists: true } }],
+    });
+    expect(readFileSync(filePath, 'utf-8')).toBe('original');
+
+    await expect(
+      client.applyWorkspaceEdit({ documentChanges: [{ kind: 'create', uri }] })
+    ).rejects.toThrow('already exists');
+
+    await client.applyWorkspaceEdit({
+      documentChanges: [
+        { kind: 'create', uri, options: { overwrite: true, ignoreIfExists: true } },
+      ],
+    });
+    expect(readFileSync(filePath, 'utf-8')).toBe('');
+  });
+
+  it('should rename files, move open documents and notify servers', async () => {
+    const oldPath = join(TEST_DIR, 'old.ts');
+    const newPath = join(TEST_DIR, 'moved', 'new.ts');
+    writeFileSync(oldPath, 'export const value = 1;\n');
+
+    const serverState = createServerState({ didRename: true });
+    (client as any).servers = new Map([['test-key', serverState]]);
+    const notificationSpy = spyOn(client as any, 'sendNotification').mockResolvedValue(undefined);
+
+    await (client as any).ensureFileOpen(serverState, oldPath);
+    await client.applyWorkspaceEdit({
+      documentChanges: [{ kind: 'rename', oldUri: pathToUri(oldPath), newUri: pathToUri(newPath) }],
+    });
+
+    expect(existsSync(oldPath)).toBe(false);
+    expect(readFileSync(newPath, 'utf-8')).toBe('export const value = 1;\n');
+    expect(serverState.openFiles.has(oldPath)).toBe(false);
+    expect(serverState.openFiles.has(newPath)).toBe(true);
+
+    const methods = notificationSpy.mock.calls.map((call: unknown[]) => call[1]);
+    expect(methods).toEqual([
+      'textDocument/didOpen',
+      'textDocument/didClose',
+      'textDocument/didOpen',
+      'workspace/didRenameFiles',
+    ]);
+    expect(notificationSpy.mock.calls[3]?.[2]).toEqual({
+      files: [{ oldUri: pathToUri(oldPath), newUri: pathToUri(newPath) }],
+    });
+
+    notificationSpy.mockRestore();
+  });
+
+  it('should refuse to rename over an existing file unless overwrite is set', async () => {
+    const oldPath = join(TEST_DIR, 'a.ts');
+    const newPath = join(TEST_DIR, 'b.ts');
+    writeFileSync(oldPath, 'a');
+    writeFileSync(newPath, 'b');
+
+    await expect(
+      client.applyWorkspaceEdit({
+        documentChanges: [
+          { kind: 'rename', oldUri: pathToUri(oldPath), newUri: pathToUri(newPath) },
+        ],
+      })
+    ).rejects.toThrow('target already exists');
+
+    await client.applyWorkspaceEdit({
+      documentChanges: [
+        {
+          kind: 'rename',
+          oldUri: pathToUri(oldPath),
+          newUri: pathToUri(newPath),
+          options: { overwrite: true },
+        },
+      ],
+    });
+
+    expect(existsSync(oldPath)).toBe(false);
+    expect(readFileSync(newPath, 'utf-8')).toBe('a');
+  });
+
+  it('should delete files and directories honoring recursive and ignoreIfNotExists', async () => {
+    const dirPath = join(TEST_DIR, 'to-delete');
+    const filePath = join(dirPath, 'inner.ts');
+    mkdirSync(dirPath);
+    writeFileSync(filePath, 'inner');
+
+    const serverState = createServerState({ didDelete: true });
+    (client as any).servers = new Map([['test-key', serverState]]);
+    const notificationSpy = spyOn(client as any, 'sendNotification').mockResolvedValue(undefined);
+    await (client as any).ensureFileOpen(serverState, filePath);
+
+    await expect(
+      client.applyWorkspaceEdit({ documentChanges: [{ kind: 'delete', uri: pathToUri(dirPath) }] })
+    ).rejects.toThrow('without the recursive option');
+
+    await client.applyWorkspaceEdit({
+      documentChanges: [
+        { kind: 'delete', uri: pathToUri(dirPath), options: { recursive: true } },
+        {
+          kind: 'delete',
+          uri: pathToUri(join(TEST_DIR, 'missing.ts')),
+          options: { ignoreIfNotExists: true },
+        },
+      ],
+    });
+
+    expect(existsSync(dirPath)).toBe(false);
+    expect(serverState.openFiles.has(filePath)).toBe(false);
+
+    const methods = notificationSpy.mock.calls.map((call: unknown[]) => call[1]);
+    expect(methods).toContain('textDocument/didClose');
+    expect(methods).toContain('workspace/didDeleteFiles');
+
+    notificationSpy.mockRestore();
+  });
+
+  it('should not send file operation notifications to servers that did not ask for them', async () => {
+    const filePath = join(TEST_DIR, 'quiet.ts');
+    const serverState = createServerState();
+    (client as any).servers = new Map([['test-key', serverState]]);
+    const notificationSpy = spyOn(client as any, 'sendNotification').mockResolvedValue(undefined);
+
+    await client.applyWorkspaceEdit({
+      documentChanges: [{ kind: 'create', uri: pathToUri(filePath) }],
+    });
+
+    expect(existsSync(filePath)).toBe(true);
+    expect(notificationSpy).not.toHaveBeenCalled();
+
+    notificationSpy.mockRestore();
+  });
+});
+
+describe('applyWorkspaceEdit transactions', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+
+  const insertAtStart = (uri: string, text: string, version: number | null = null) => ({
+    textDocument: { uri, version },
+    edits: [
+      {
+        range: { start: { line: 0, character: 0 }, end: { line: 0, character: 0 } },
+        newText: text,
+      },
+    ],
+  });
+
+  beforeEach(() => {
+    if (existsSync(TEST_DIR)) {
+      rmSync(TEST_DIR, { recursive: true, force: true });
+    }
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(
+      TEST_CONFIG_PATH,
+      JSON.stringify({
+        servers: [
+          {
+            extensions: ['ts'],
+            command: ['typescript-language-server', '--stdio'],
+            rootDir: TEST_DIR,
+          },
+        ],
+      })
+    );
+
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    client = new LSPClient(TEST_CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
+  });
+
+  afterEach(() => {
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should list every touched file in the result', async () => {
+    const firstPath = join(TEST_DIR, 'first.ts');
+    const secondPath = join(TEST_DIR, 'second.ts');
+    writeFileSync(firstPath, 'one\n');
+    writeFileSync(secondPath, 'two\n');
+
+    const result = await client.applyWorkspaceEdit({
+      changes: {
+        [pathToUri(firstPath)]: insertAtStart(pathToUri(firstPath), '// ').edits,
+        [pathToUri(secondPath)]: insertAtStart(pathToUri(secondPath), '// ').edits,
+      },
+    });
+
+    expect(result.touchedFiles).toEqual([firstPath, secondPath]);
+    expect(result.content).toContain(`Files touched (2):\n  ${firstPath}\n  ${secondPath}`);
+    expect(readFileSync(firstPath, 'utf-8')).toBe('// one\n');
+    expect(readFileSync(secondPath, 'utf-8')).toBe('// two\n');
+  });
+
+  it('should leave every file untouched when a later change is invalid', async () => {
+    const firstPath = join(TEST_DIR, 'first.ts');
+    const secondPath = join(TEST_DIR, 'second.ts');
+    writeFileSync(firstPath, 'one\n');
+    writeFileSync(secondPath, 'two\n');
+
+    await expect(
+      client.applyWorkspaceEdit({
+        documentChanges: [
+          insertAtStart(pathToUri(firstPath), '// '),
+          insertAtStart(pathToUri(secondPath), '// '),
+          insertAtStart(pathToUri(join(TEST_DIR, 'missing.ts')), '// '),
+        ],
+      })
+    ).rejects.toThrow('Workspace edit was not applied');
+
+    expect(readFileSync(firstPath, 'utf-8')).toBe('one\n');
+    expect(readFileSync(secondPath, 'utf-8')).toBe('two\n');
+  });
+
+  it('should roll back files already written when a write fails', async () => {
+    const firstPath = join(TEST_DIR, 'first.ts');
+    const secondPath = join(TEST_DIR, 'second.ts');
+    const blockerPath = join(TEST_DIR, 'blocker');
+    writeFileSync(firstPath, 'one\n');
+    writeFileSync(secondPath, 'two\n');
+    // A regular file where a directory is needed makes the third write fail
+    writeFileSync(blockerPath, '');
+
+    await expect(
+      client.applyWorkspaceEdit({
+        documentChanges: [
+          insertAtStart(pathToUri(firstPath), '// '),
+          { kind: 'delete', uri: pathToUri(secondPath) },
+          { kind: 'create', uri: pathToUri(join(blockerPath, 'third.ts')) },
+        ],
+      })
+    ).rejects.toThrow('Workspace edit was not applied');
+
+    expect(readFileSync(firstPath, 'utf-8')).toBe('one\n');
+    expect(readFileSync(secondPath, 'utf-8')).toBe('two\n');
+    expect(readFileSync(blockerPath, 'utf-8')).toBe('');
+  });
+
+  it('should reject edits computed against a different document version', async () => {
+    const filePath = join(TEST_DIR, 'versioned.ts');
+    writeFileSync(filePath, 'const value = 1;\n');
+
+    const serverState = {
+      initializationPromise: Promise.resolve(),
+      process: { stdin: { write: jest.fn() } },
+      initialized: true,
+      openFiles: new Set<string>(),
+      documents: new Map(),
+      diagnostics: new Map(),
+      config: { extensions: ['ts'], command: ['typescript-language-server', '--stdio'] },
+      capabilities: {},
+    };
+    (client as any).servers = new Map([['test-key', serverState]]);
+    const notificationSpy = spyOn(client as any, 'sendNotification').mockResolvedValue(undefined);
+    await (client as any).ensureFileOpen(serverState, filePath);
+
+    await expect(
+      client.applyWorkspaceEdit({
+        documentChanges: [insertAtStart(pathToUri(filePath), '// ', 7)],
+      })
+    ).rejects.toThrow('has changed since the edit was computed');
+    expect(readFileSync(filePath, 'utf-8')).toBe('const value = 1;\n');
+
+    await client.applyWorkspaceEdit({
+      documentChanges: [insertAtStart(pathToUri(filePath), '// ', 1)],
+    });
+    expect(readFileSync(filePath, 'utf-8')).toBe('// const value = 1;\n');
+    expect(serverState.documents.get(filePath)?.version).toBe(2);
+
+    notificationSpy.mockRestore();
+  });
+
+  it('should compare edit versions with the server that produced the edit', async () => {
+    const filePath = join(TEST_DIR, 'versioned.ts');
+    writeFileSync(filePath, 'const value = 1;\n');
+
+    const createServerState = (version: number) => ({
+      process: { stdin: { write: jest.fn() } },
+      openFiles: new Set([filePath]),
+      documents: new Map([[filePath, { version, content: 'const value = 1;\n' }]]),
+      config: { extensions: ['ts'], command: ['typescript-language-server', '--stdio'] },
+      capabilities: {},
+    });
+    const primary = createServerState(1);
+    const secondary = createServerState(5);
+    (client as any).servers = new Map([
+      ['primary', primary],
+      ['secondary', secondary],
+    ]);
+
+    const staleEdit = { documentChanges: [insertAtStart(pathToUri(filePath), '// ', 5)] };
+    (client as any).resultOrigins.set(staleEdit, primary);
+    await expect(client.applyWorkspaceEdit(staleEdit)).rejects.toThrow(
+      'has changed since the edit was computed'
+    );
+    expect(readFileSync(filePath, 'utf-8')).toBe('const value = 1;\n');
+
+    const edit = { documentChanges: [insertAtStart(pathToUri(filePath), '// ', 1)] };
+    (client as any).resultOrigins.set(edit, primary);
+    const notificationSpy = spyOn(client as any, 'sendNotification').mockResolvedValue(undefined);
+    await client.applyWorkspaceEdit(edit);
+    expect(readFileSync(filePath, 'utf-8')).toBe('// const value = 1;\n');
+
+    notificationSpy.mockRestore();
+  });
+});
+
+describe('edit journal', () => {
+  let client: LSPClient;
+  let stderrSpy: ReturnType<typeof spyOn>;
+
+  const replaceFirstLine = (text: string) => [
+    {
+      range: { start: { line: 0, character: 0 }, end: { line: 0, character: 3 } },
+      newText: text,
+    },
+  ];
+
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+    writeFileSync(
+      TEST_CONFIG_PATH,
+      JSON.stringify({
+        servers: [
+          {
+            extensions: ['ts'],
+            command: ['typescript-language-server', '--stdio'],
+            rootDir: TEST_DIR,
+          },
+        ],
+      })
+    );
+
+    stderrSpy = spyOn(process.stderr, 'write').mockImplementation(() => true);
+    client = new LSPClient(TEST_CONFIG_PATH, { cwd: TEST_DIR, homeDir: TEST_DIR });
+  });
+
+  afterEach(() => {
+    stderrSpy.mockRestore();
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should record workspace edits and undo them, removing created files', async () => {
+    const filePath = join(TEST_DIR, 'edited.ts');
+    const createdPath = join(TEST_DIR, 'created.ts');
+    writeFileSync(filePath, 'foo();\n');
+
+    await client.applyWorkspaceEdit(
+      {
+        documentChanges: [
+          {
+            textDocument: { uri: pathToUri(filePath), version: null },
+            edits: replaceFirstLine('bar'),
+          },
+          { kind: 'create', uri: pathToUri(createdPath) },
+        ],
+      },
+      'Rename foo to bar'
+    );
+
+    const history = client.getEditHistory();
+    expect(history).toHaveLength(1);
+    expect(history[0]?.description).toBe('Rename foo to bar');
+    expect(history[0]?.files.map((file) => file.path)).toEqual([filePath, createdPath]);
+
+    const syncSpy = spyOn(client, 'syncOpenDocuments');
+    const entry = await client.undoEdit();
+
+    expect(entry.id).toBe(history[0]?.id as number);
+    expect(readFileSync(filePath, 'utf-8')).toBe('foo();\n');
+    expect(existsSync(createdPath)).toBe(false);
+    expect(syncSpy).toHaveBeenCalledWith([filePath, createdPath]);
+    expect(client.getEditHistory()).toHaveLength(0);
+
+    syncSpy.mockRestore();
+  });
+
+  it('should record edits written by applyTextEdits', async () => {
+    const filePath = join(TEST_DIR, 'formatted.ts');
+    writeFileSync(filePath, 'foo();\n');
+
+    await client.applyTextEdits(filePath, replaceFirstLine('bar'), true, 'Format formatted.ts');
+    await client.applyTextEdits(filePath, replaceFirstLine('baz'), false);
+
+    expect(client.getEditHistory().map((entry) => entry.description)).toEqual([
+      'Format formatted.ts',
+    ]);
+
+    await client.undoEdit();
+    expect(readFileSync(filePath, 'utf-8')).toBe('foo();\n');
+  });
+
+  it('should undo a chosen entry and refuse when its files changed afterwards', async () => {
+    const firstPath = join(TEST_DIR, 'first.ts');
+    const secondPath = join(TEST_DIR, 'second.ts');
+    writeFileSync(firstPath, 'one();\n');
+    writeFileSync(secondPath, 'two();\n');
+
+    await client.applyTextEdits(firstPath, replaceFirstLine('uno'), true, 'first');
+    await client.applyTextEdits(secondPath, replaceFirstLine('dos'), true, 'second');
+    const [secondEntry, firstEntry] = client.getEditHistory();
+
+    await client.undoEdit(firstEntry?.id);
+    expect(readFileSync(firstPath, 'utf-8')).toBe('one();\n');
+    expect(readFileSync(secondPath, 'utf-8')).toBe('dos();\n');
+
+    writeFileSync(secondPath, 'changed by hand\n');
+    await expect(client.undoEdit(secondEntry?.id)).rejects.toThrow(
+      'these files were changed afterwards'
+    );
+    expect(readFileSync(secondPath, 'utf-8')).toBe('changed by hand\n');
+
+    await expect(client.undoEdit(999)).rejects.toThrow('Edit #999 is not in the edit history');
+  });
+});
+
+describe('WorkspaceEditTransaction', () => {
+  beforeEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+    mkdirSync(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(() => {
+    rmSync(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should stage changes in memory until commit', async () => {
+    const dirPath = join(TEST_DIR, 'src');
+    mkdirSync(join(dirPath, 'nested'), { recursive: true });
+    writeFileSync(join(dirPath, 'a.ts'), 'a');
+    writeFileSync(join(dirPath, 'nested', 'b.ts'), 'b');
+
+    const transaction = new WorkspaceEditTransaction();
+    await transaction.moveDirectory(dirPath, join(TEST_DIR, 'lib'));
+
+    expect(await transaction.getKind(dirPath)).toBeNull();
+    expect(await transaction.getKind(join(TEST_DIR, 'lib'))).toBe('directory');
+    expect(await transaction.listFiles(join(TEST_DIR, 'lib'))).toEqual([
+      join(TEST_DIR, 'lib', 'a.ts'),
+      join(TEST_DIR, 'lib', 'nested', 'b.ts'),
+    ]);
+    expect(existsSync(join(dirPath, 'a.ts'))).toBe(true);
+
+    await transaction.commit();
+
+    expect(existsSync(dirPath)).toBe(false);
+    expect(readFileSync(join(TEST_DIR, 'lib', 'nested', 'b.ts'), 'utf-8')).toBe('b');
+  });
+
+  it('should not report files whose content ends up unchanged', async () => {
+    const filePath = join(TEST_DIR, 'same.ts');
+    writeFileSync(filePath, 'same');
+
+    const transaction = new WorkspaceEditTransaction();
+    await transaction.writeFile(filePath, { content: 'same' });
+
+    expect(transaction.touchedFiles).toEqual([]);
+  });
+});
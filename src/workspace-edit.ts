@@ -0,0 +1,366 @@
+import { chmod, mkdir, readFile, readdir, rm, stat, writeFile } from 'node:fs/promises';
+import { dirname, join, sep } from 'node:path';
+import type { TextEdit } from './types.js';
+
+/**
+ * Contents of a file as seen by a workspace edit. Files that are only moved keep
+ * their raw bytes, files that are edited hold text.
+ */
+export interface StagedFile {
+  content: string | Buffer;
+  mode?: number;
+}
+
+/**
+ * A file changed by an edit, with its state before and after the change.
+ * `null` means the file did not exist.
+ */
+export interface FileChange {
+  path: string;
+  before: StagedFile | null;
+  after: StagedFile | null;
+}
+
+/**
+ * An edit recorded in the session's edit journal
+ */
+export interface EditJournalEntry {
+  id: number;
+  description: string;
+  timestamp: Date;
+  files: FileChange[];
+}
+
+/**
+ * Apply text edits to file content without touching the disk
+ */
+export function applyTextEditsToContent(
+  content: string,
+  textEdits: TextEdit[]
+): { content: string; summary: string[] } {
+  // Sort edits by position (reverse order to apply from end to beginning)
+  const sortedEdits = [...textEdits].sort((a, b) => {
+    if (a.range.start.line !== b.range.start.line) {
+      return b.range.start.line - a.range.start.line;
+    }
+    return b.range.start.character - a.range.start.character;
+  });
+
+  const lines = content.split('\n');
+  const summary: string[] = [];
+
+  // Apply edits in reverse order to preserve line/character positions
+  for (const edit of sortedEdits) {
+    const { start, end } = edit.range;
+    const newText = edit.newText;
+
+    // Validate range
+    if (start.line < 0 || start.line >= lines.length || end.line < 0 || end.line > lines.length) {
+      process.stderr.write(
+        `[DEBUG applyTextEdits] Skipping invalid range: ${start.line}:${start.character}-${end.line}:${end.character}\n`
+      );
+      continue;
+    }
+
+    // Create summary of changes
+    if (start.line === end.line) {
+      const line = lines[start.line];
+      if (line !== undefined) {
+        const originalText = line.substring(start.character, end.character);
+        if (originalText !== newText) {
+          if (originalText.trim() === '' && newText.trim() !== '') {
+            summary.push(`• Line ${start.line + 1}: Added content`);
+          } else if (originalText.trim() !== '' && newText.trim() === '') {
+            summary.push(`• Line ${start.line + 1}: Removed content`);
+          } else if (originalText.match(/^\s+$/) && newText.match(/^\s+$/)) {
+            summary.push(`• Line ${start.line + 1}: Adjusted indentation`);
+          } else {
+            summary.push(`• Line ${start.line + 1}: Modified content`);
+          }
+        }
+      }
+    } else {
+      summary.push(`• Lines ${start.line + 1}-${end.line + 1}: Multi-line edit`);
+    }
+
+    // Apply the edit
+    if (start.line === end.line) {
+      // Single line edit
+      const line = lines[start.line];
+      if (line !== undefined) {
+        lines[start.line] =
+          line.substring(0, start.character) + newText + line.substring(end.character);
+      }
+    } else {
+      // Multi-line edit
+      const startLineContent = lines[start.line];
+      const endLineContent = lines[end.line];
+      if (startLineContent !== undefined && endLineContent !== undefined) {
+        const startLine = startLineContent.substring(0, start.character);
+        const endLine = endLineContent.substring(end.character);
+        const newLines = newText.split('\n');
+
+        // Replace the range with new content
+        lines.splice(
+          start.line,
+          end.line - start.line + 1,
+          startLine + newLines[0],
+          ...newLines.slice(1, -1),
+          newLines[newLines.length - 1] + endLine
+        );
+      }
+    }
+  }
+
+  return { content: lines.join('\n'), summary };
+}
+
+/**
+ * Stages file changes in memory so a multi-file workspace edit can be written all at once.
+ * The original state of every touched file is snapshotted before anything is written, and
+ * restored if any write fails.
+ */
+export class WorkspaceEditTransaction {
+  private originals: Map<string, StagedFile | null> = new Map();
+  private staged: Map<string, StagedFile | null> = new Map();
+  private removedDirectories: Set<string> = new Set();
+
+  /**
+   * Read a file as it will look once the staged changes are committed
+   */
+  async readFile(filePath: string): Promise<StagedFile | null> {
+    if (this.staged.has(filePath)) {
+      return this.staged.get(filePath) ?? null;
+    }
+    if (this.isInRemovedDirectory(filePath)) {
+      return null;
+    }
+    return this.readOriginal(filePath);
+  }
+
+  /**
+   * Get whether a path is a file or a directory once the staged changes are committed
+   */
+  async getKind(path: string): Promise<'file' | 'directory' | null> {
+    if (this.staged.has(path)) {
+      if (this.staged.get(path)) {
+        return 'file';
+      }
+    } else if (!this.isInRemovedDirectory(path)) {
+      const stats = await stat(path).catch(() => null);
+      if (stats?.isDirectory()) {
+        return 'directory';
+      }
+      if (stats) {
+        return 'file';
+      }
+    }
+
+    for (const [stagedPath, file] of this.staged) {
+      if (file && stagedPath.startsWith(path + sep)) {
+        return 'directory';
+      }
+    }
+    return null;
+  }
+
+  /**
+   * List all files below a directory once the staged changes are committed
+   */
+  async listFiles(dirPath: string): Promise<string[]> {
+    const files = new Set<string>();
+    if (!this.isInRemovedDirectory(dirPath)) {
+      for (const filePath of await this.listFilesOnDisk(dirPath)) {
+        if (!this.isInRemovedDirectory(filePath) && this.staged.get(filePath) !== null) {
+          files.add(filePath);
+        }
+      }
+    }
+    for (const [stagedPath, file] of this.staged) {
+      if (file && stagedPath.startsWith(dirPath + sep)) {
+        files.add(stagedPath);
+      }
+    }
+    return [...files].sort();
+  }
+
+  async writeFile(filePath: string, file: StagedFile): Promise<void> {
+    await this.snapshot(filePath);
+    this.staged.set(filePath, file);
+  }
+
+  async deleteFile(filePath: string): Promise<void> {
+    await this.snapshot(filePath);
+    this.staged.set(filePath, null);
+  }
+
+  async deleteDirectory(dirPath: string): Promise<void> {
+    for (const filePath of await this.listFiles(dirPath)) {
+      await this.deleteFile(filePath);
+    }
+    this.removedDirectories.add(dirPath);
+  }
+
+  async moveFile(oldPath: string, newPath: string): Promise<void> {
+    const file = await this.readFile(oldPath);
+    if (!file) {
+      throw new Error(`Cannot move ${oldPath}: file does not exist`);
+    }
+    await this.deleteFile(oldPath);
+    await this.writeFile(newPath, file);
+  }
+
+  async moveDirectory(oldPath: string, newPath: string): Promise<void> {
+    for (const filePath of await this.listFiles(oldPath)) {
+      await this.moveFile(filePath, newPath + filePath.substring(oldPath.length));
+    }
+    this.removedDirectories.add(oldPath);
+  }
+
+  /**
+   * Files whose content or existence differs from what is on disk
+   */
+  get touchedFiles(): string[] {
+    return [...this.staged.keys()].filter(
+      (filePath) =>
+        !isSameFile(this.originals.get(filePath) ?? null, this.staged.get(filePath) ?? null)
+    );
+  }
+
+  /**
+   * The before and after state of every touched file
+   */
+  get changes(): FileChange[] {
+    return this.touchedFiles.map((filePath) => ({
+      path: filePath,
+      before: this.originals.get(filePath) ?? null,
+      after: this.staged.get(filePath) ?? null,
+    }));
+  }
+
+  /**
+   * Write every staged change to disk. If any write fails, all files written so far are
+   * restored from their snapshots and the original error is rethrown.
+   */
+  async commit(): Promise<void> {
+    const written: string[] = [];
+    const removed: string[] = [];
+
+    try {
+      // Deletions first, so a path freed by a rename can be reused by a later create
+      const touched = this.touchedFiles;
+      for (const filePath of touched.filter((path) => this.staged.get(path) === null)) {
+        written.push(filePath);
+        await rm(filePath, { force: true });
+      }
+      for (const filePath of touched) {
+        const file = this.staged.get(filePath);
+        if (file) {
+          written.push(filePath);
+          await writeStagedFile(filePath, file);
+        }
+      }
+      for (const dirPath of this.removedDirectories) {
+        if ((await this.listFiles(dirPath)).length === 0) {
+          removed.push(dirPath);
+          await rm(dirPath, { recursive: true, force: true });
+        }
+      }
+    } catch (error) {
+      const rollbackErrors = await this.restore(written, removed);
+      if (rollbackErrors.length > 0) {
+        throw new Error(
+          `${error instanceof Error ? error.message : error} (rollback failed for: ${rollbackErrors.join(', ')})`
+        );
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Put the given files back to their snapshotted state. Returns the files that could not be restored.
+   */
+  private async restore(filePaths: string[], removedDirectories: string[]): Promise<string[]> {
+    const failed: string[] = [];
+
+    for (const dirPath of removedDirectories) {
+      await mkdir(dirPath, { recursive: true }).catch(() => failed.push(dirPath));
+    }
+
+    for (const filePath of [...filePaths].reverse()) {
+      const original = this.originals.get(filePath) ?? null;
+      try {
+        if (original) {
+          await writeStagedFile(filePath, original);
+        } else {
+          await rm(filePath, { force: true });
+        }
+      } catch {
+        failed.push(filePath);
+      }
+    }
+
+    return failed;
+  }
+
+  private async snapshot(filePath: string): Promise<void> {
+    if (!this.originals.has(filePath)) {
+      this.originals.set(filePath, await this.readOriginal(filePath));
+    }
+  }
+
+  private async readOriginal(filePath: string): Promise<StagedFile | null> {
+    if (this.originals.has(filePath)) {
+      return this.originals.get(filePath) ?? null;
+    }
+    try {
+      const stats = await stat(filePath);
+      if (!stats.isFile()) {
+        return null;
+      }
+      return { content: await readFile(filePath), mode: stats.mode };
+    } catch {
+      return null;
+    }
+  }
+
+  private isInRemovedDirectory(path: string): boolean {
+    for (const dirPath of this.removedDirectories) {
+      if (path === dirPath || path.startsWith(dirPath + sep)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private async listFilesOnDisk(dirPath: string): Promise<string[]> {
+    const entries = await readdir(dirPath, { withFileTypes: true }).catch(() => []);
+    const files: string[] = [];
+    for (const entry of entries) {
+      const entryPath = join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        files.push(...(await this.listFilesOnDisk(entryPath)));
+      } else if (entry.isFile()) {
+        files.push(entryPath);
+      }
+    }
+    return files;
+  }
+}
+
+async function writeStagedFile(filePath: string, file: StagedFile): Promise<void> {
+  await mkdir(dirname(filePath), { recursive: true });
+  await writeFile(filePath, file.content, typeof file.content === 'string' ? 'utf-8' : undefined);
+  if (file.mode !== undefined) {
+    await chmod(filePath, file.mode);
+  }
+}
+
+export function isSameFile(a: StagedFile | null, b: StagedFile | null): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+  const aContent = typeof a.content === 'string' ? Buffer.from(a.content) : a.content;
+  const bContent = typeof b.content === 'string' ? Buffer.from(b.content) : b.content;
+  return aContent.equals(bContent);
+}